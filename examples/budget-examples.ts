@@ -0,0 +1,67 @@
+import {label} from "../src/components/label";
+import {Bot, lub} from "../src/components/lattice";
+import {bind, LIO, toLabeled, unLabel, unsafe_runLIO} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {catchLIO} from "../src/components/monad-exception";
+import {mintPrivilege} from "../src/components/privilege";
+import {BudgetExhaustedError, bitsFor, budgetedDeclassifier, fileBudgetStore, memoryBudgetStore} from "../src/components/budget";
+
+namespace example_password {
+    const amy = mintPrivilege("Amy")
+    const password = label("Amy", "hunter2")
+    const snk_pub = snk("Public", async (s: string) => console.log(s))
+
+    // Amy lets 3 bits out about her password: 3 yes/no answers.
+    const oracle = budgetedDeclassifier(amy, {bits: 3, store: memoryBudgetStore()})
+    const check = (guess: string): LIO<"Public", Bot, Promise<null>> =>
+        bind(oracle.release(password, (p) => p === guess), (ok) =>
+            output(snk_pub)(label("Public", `${guess}: ${ok ? "yes" : "no"}`)))
+
+    // @ts-expect-error : without the oracle, the answer is Amy's
+    const leak = bind(unLabel(password), (p) => output(snk_pub)(label("Public", p === "123456" ? "yes" : "no")))
+
+    unsafe_runLIO(check("123456"))
+    unsafe_runLIO(check("password"))
+    unsafe_runLIO(check("letmein"))
+    console.log(oracle.remaining(password))    // 0
+
+    // the 4th guess is refused, with a labeled failure.
+    try {
+        unsafe_runLIO(check("hunter2"))
+    } catch (e) {
+        console.log((e as Error).name)    // "LabeledFailure"
+    }
+    const refused = catchLIO(check("hunter2"), (e) =>
+        output(snk_pub)(label("Public", e.unsafeGetValue() instanceof BudgetExhaustedError ? "no more guesses" : "failed")))
+    unsafe_runLIO(refused)
+
+    // nor does a copy of the password get a budget of its own.
+    const copy = unsafe_runLIO(toLabeled(unLabel(password)))
+    console.log(oracle.remaining(copy))    // 0
+
+    // a release that would spend nothing is refused outright.
+    try {
+        oracle.release(password, (p) => p.length, 0)
+    } catch (e) {
+        console.log((e as Error).name)    // "RangeError"
+    }
+}
+
+namespace example_balance {
+    const bank = mintPrivilege("Bank")
+    const balance = label(lub("Bank", "Amy"), 1234)
+
+    // a budget per secret, kept in a file (so it survives restarts),
+    // where the secret goes by a name.
+    const teller = budgetedDeclassifier(bank, {
+        bits: 8,
+        store: fileBudgetStore("budgets.json", {"balance:amy": balance})
+    })
+
+    // one of 4 answers: 2 bits.
+    const bracket = teller.release(balance, (b) => b < 0 ? 0 : b < 1000 ? 1 : b < 10000 ? 2 : 3, bitsFor(4))
+    // Bank's consent removes Bank, not Amy.
+    const bracket_: LIO<string, "Amy", number> = bracket
+    // @ts-expect-error : Amy's part is still there
+    const bracket__: LIO<string, Bot, number> = bracket
+}
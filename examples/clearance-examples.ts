@@ -0,0 +1,24 @@
+import {label} from "../src/components/label";
+import {bind, bindAsync, ret, runLIOWithClearance, unLabel, withClearance} from "../src/components/monad";
+import {input, output, snk, src} from "../src/components/monad-io";
+
+namespace example_clearance {
+    const amy = "Amy"
+    const bob = "Bob"
+    const src_amy = src(amy, async () => "Amy's data")
+    const src_bob = src(bob, async () => "Bob's data")
+    const snk_amy = snk(amy, async (s: string) => console.log("to Amy:", s))
+
+    // a plugin, run on Amy's behalf: it may read Amy's data ...
+    const plugin0 = bindAsync(input(src_amy), output(snk_amy))
+    const m0 = withClearance(amy, plugin0)
+    const r0 = runLIOWithClearance(amy, plugin0)
+
+    // ... but not Bob's, even if it never writes it anywhere.
+    // @ts-expect-error : "Bob" is above the clearance "Amy"
+    const m1 = withClearance(amy, unLabel(label(bob, 42)))
+    // @ts-expect-error : the same, for a source.
+    const m2 = withClearance(amy, input(src_bob))
+    // @ts-expect-error : and for what it reads along the way.
+    const m3 = withClearance(amy, bind(unLabel(label(bob, 42)), (n) => ret(n + 1)))
+}
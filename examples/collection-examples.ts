@@ -0,0 +1,43 @@
+import {label, Labeled} from "../src/components/label";
+import {bind, unLabel} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {filterL, groupByL, labeledArray, LabeledArray, mapL, reduceL, sortL} from "../src/components/labeled-collections";
+
+namespace example_collections {
+    type Order = { customer: string, total: number }
+    const pub = "Public"
+
+    // orders from many customers; each is labeled with its customer.
+    // how many orders there are is public.
+    const orders: LabeledArray<"Public", "Amy" | "Bob", Order> = labeledArray(pub, [
+        label("Amy", {customer: "Amy", total: 30}),
+        label("Bob", {customer: "Bob", total: 120}),
+        label("Amy", {customer: "Amy", total: 70})
+    ])
+    const snk_pub = snk(pub, async (n: number) => console.log("public:", n))
+
+    // mapping keeps each element's label, and the shape's.
+    const totals = mapL(orders, (o) => o.total)
+    const t0: LabeledArray<"Public", "Amy" | "Bob", number> = totals
+    // so the number of orders may go public ...
+    const m0 = bind(unLabel(totals), (ts) => output(snk_pub)(label(pub, ts.length)))
+
+    // ... but not the number of big ones: which are big depends on the orders.
+    const big = filterL(orders, (o) => o.total > 50)
+    const t1: LabeledArray<"Public" | "Amy" | "Bob", "Amy" | "Bob", Order> = big
+    // @ts-expect-error : "Amy" | "Bob" does not flow to "Public"
+    const m1 = bind(unLabel(big), (bs) => output(snk_pub)(label(pub, bs.length)))
+
+    // a labeled predicate raises the shape to its label, too.
+    const threshold = label("Admin", (o: Order) => o.total > 100)
+    const t2: LabeledArray<"Public" | "Amy" | "Bob" | "Admin", "Amy" | "Bob", Order> = filterL(orders, threshold)
+
+    // folding and sorting depend on every element.
+    const sum: Labeled<"Public" | "Amy" | "Bob", number> = reduceL(totals, (a, t) => a + t, 0)
+    const sorted = sortL(orders, (a, b) => a.total - b.total)
+    const t3: LabeledArray<"Public" | "Amy" | "Bob", "Amy" | "Bob", Order> = sorted
+
+    // so does grouping: the key set, and each group's shape.
+    const byCustomer = groupByL(orders, (o) => o.customer)
+    const perCustomer = mapL(byCustomer, (os) => os.length)
+}
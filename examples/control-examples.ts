@@ -0,0 +1,79 @@
+import {label, Labeled} from "../src/components/label";
+import {LabeledFailure} from "../src/components/enforcement";
+import {levelOf} from "../src/components/lattice";
+import {ret, unsafe_runLIO} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {forEachLIO, ifLIO, matchLIO, whenLIO} from "../src/components/monad-control";
+
+namespace example_if {
+    const amy = "Amy"
+    const bob = "Bob"
+    const snk_amy = snk(amy, async (s: string) => console.log("to Amy:", s))
+    const snk_bob = snk(bob, async (s: string) => console.log("to Bob:", s))
+    const snk_any = snk(levelOf<"Amy" | "Bob">([amy, bob]), async (s: string) => console.log(s))
+
+    const secret = label(amy, true)
+
+    // branching on Amy's data and writing to Amy is fine ...
+    const m0 = ifLIO(secret, output(snk_amy)(label(amy, "yes")), output(snk_amy)(label(amy, "no")))
+    // ... and so is writing where Amy and Bob may both read.
+    const m1 = ifLIO(secret, output(snk_any)(label(bob, "yes")), ret(null))
+    // @ts-expect-error : but whether Bob hears "yes" tells him Amy's secret (an implicit flow).
+    const m2 = ifLIO(secret, output(snk_bob)(label(bob, "yes")), ret(null))
+    // @ts-expect-error : the same, with one branch.
+    const m3 = whenLIO(secret, output(snk_bob)(label(bob, "yes")))
+
+    unsafe_runLIO(m0)
+}
+
+namespace example_match {
+    type Shape = { kind: "circle", r: number } | { kind: "square", side: number }
+    const amy = "Amy"
+    const bob = "Bob"
+    const snk_amy = snk(amy, async (s: string) => console.log(s))
+    const snk_bob = snk(bob, async (s: string) => console.log(s))
+
+    const shape = label<"Amy", Shape>(amy, {kind: "circle", r: 1})
+
+    const m0 = matchLIO(shape, "kind", {
+        circle: (c) => output(snk_amy)(label(amy, `circle of radius ${c.r}`)),
+        square: (s) => output(snk_amy)(label(amy, `square of side ${s.side}`))
+    })
+    const m1 = matchLIO(shape, "kind", {
+        circle: (c) => output(snk_amy)(label(amy, `circle of radius ${c.r}`)),
+        // @ts-expect-error : the case that runs tells Bob the kind.
+        square: (s) => output(snk_bob)(label(bob, "a square"))
+    })
+
+    unsafe_runLIO(m0)
+
+    // a tag without a case (e.g. from parsed JSON) is a labeled failure.
+    const parsed: Labeled<"Amy", Shape> = label(amy, JSON.parse('{"kind": "triangle"}'))
+    try {
+        unsafe_runLIO(matchLIO(parsed, "kind", {circle: (c) => ret(c.r), square: (s) => ret(s.side)}))
+    } catch (e) {
+        console.log((e as LabeledFailure).label) // Amy
+    }
+}
+
+namespace example_loops {
+    const amy = "Amy"
+    const bob = "Bob"
+    const snk_amy = snk(amy, async (s: string) => console.log(s))
+    const snk_bob = snk(bob, async (s: string) => console.log(s))
+
+    const names = label(amy, ["x", "y", "z"])
+
+    // at most 10 runs.
+    const m0 = forEachLIO(names, (n) => output(snk_amy)(label(amy, n)), 10)
+    // @ts-expect-error : how often Bob is written to tells him the length of Amy's list.
+    const m1 = forEachLIO(names, (n) => output(snk_bob)(label(bob, "tick")), 10)
+
+    // the writes are promised; so is the loop's value, which waits for them all.
+    unsafe_runLIO(m0).then(() => console.log("done"))
+
+    // a failed write rejects it (and is not left unhandled).
+    const snk_broken = snk(amy, async (s: string) => { throw new Error("disk full") })
+    const m2 = forEachLIO(names, (n) => output(snk_broken)(label(amy, n)), 10)
+    unsafe_runLIO(m2).catch((e) => console.log(e.name))
+}
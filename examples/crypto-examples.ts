@@ -0,0 +1,62 @@
+import {bindAsync, unsafe_runLIO} from "../src/components/monad";
+import {Bot, lub} from "../src/components/lattice";
+import {label, Labeled} from "../src/components/label";
+import {output} from "../src/components/monad-io";
+import {memorySnk} from "../src/components/io-memory";
+import {Ciphertext, decryptL, encryptL, labeledKey} from "../src/components/crypto";
+import {labelBelow} from "../src/components/serialize";
+
+namespace example_encrypt {
+    const amyKey = labeledKey("Amy")
+    const amyAndBobKey = labeledKey(lub("Amy", "Bob"))
+    const ssn = label("Amy", "123-45-6789")
+
+    // the ciphertext is public: it can go to a public sink.
+    const ct: Labeled<Bot, Ciphertext<"Amy", string>> = encryptL(amyKey, ssn)
+    const store = memorySnk<"Public", Ciphertext<"Amy", string>>("Public")
+    unsafe_runLIO(output(store.snk)(ct))
+
+    // decryption restores the label (the one expected).
+    const back: Labeled<"Amy", string> = decryptL(amyKey, ct, labelBelow("Amy"))
+    // @ts-expect-error : the plaintext is labeled "Amy" again, not Bot
+    const leak: Labeled<Bot, string> = decryptL(amyKey, ct, labelBelow("Amy"))
+
+    // a key for Amy and Bob may encrypt either's data.
+    const ct2 = encryptL(amyAndBobKey, label("Bob", 42))
+    const n: Labeled<"Bob", number> = decryptL(amyAndBobKey, ct2, labelBelow("Bob"))
+
+    // @ts-expect-error : Bob's data cannot be encrypted with Amy's key (Amy would be able to read it)
+    const bad = () => encryptL(amyKey, label("Bob", 42))
+    // @ts-expect-error : nor decrypted with it
+    const bad_ = () => decryptL(amyKey, ct2, labelBelow("Bob"))
+
+    // over the wire: the label is authenticated, so it cannot be lowered.
+    const wire = JSON.stringify(ct.unsafeGetValue())
+    const tampered: Ciphertext<"Amy", string> = {...JSON.parse(wire), label: "Public"}
+    try {
+        decryptL(amyKey, label("Public", tampered), labelBelow("Amy"))
+    } catch (e) {
+        console.log((e as Error).name)    // "DecryptionError"
+    }
+
+    // at runtime, too, the plaintext's label must flow to the key's:
+    // here, Bob's ciphertext, claimed to be Amy's, and the same key
+    // bytes, but labeled for Amy only.
+    const amyOnlyKey = labeledKey("Amy", amyAndBobKey.unsafeGetValue())
+    const claimed: Ciphertext<"Amy", number> = JSON.parse(JSON.stringify(ct2.unsafeGetValue()))
+    try {
+        decryptL(amyOnlyKey, label("Public", claimed), labelBelow("Amy"))
+    } catch (e) {
+        console.log((e as Error).message)    // decryptL: cannot flow "Bob" to "Amy"
+    }
+
+    // and the label must be one the reader expects: here, Amy's
+    // ciphertext, claimed to be Bob's, and a key for both.
+    const ct3 = encryptL(amyAndBobKey, ssn)
+    const bobs: Ciphertext<"Bob", string> = JSON.parse(JSON.stringify(ct3.unsafeGetValue()))
+    try {
+        decryptL(amyAndBobKey, label("Public", bobs), labelBelow("Bob"))
+    } catch (e) {
+        console.log((e as Error).message)    // decryptL: unexpected label "Amy"
+    }
+}
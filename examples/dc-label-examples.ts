@@ -0,0 +1,53 @@
+import {CanFlowTo, dc, dcRet, dcRunLIO, DCLUB, showDC, dcLub} from "../src/components/dc-label";
+import {label} from "../src/components/label";
+import {bind, unLabel} from "../src/components/monad";
+import {input, output, snk, src} from "../src/components/monad-io";
+
+namespace example_dc_flows {
+    // Alice's secret, vouched for by Alice.
+    const alice = dc([["Alice"]], [["Alice"]])
+    // readable by Alice or Bob, vouched for by Alice.
+    const aliceOrBob = dc([["Alice", "Bob"]], [["Alice"]])
+    // public, vouched for by no one.
+    const untrusted = dc([], [])
+
+    const f0: CanFlowTo<typeof aliceOrBob, typeof alice> = true
+    const f1: CanFlowTo<typeof alice, typeof aliceOrBob> = false
+    const f2: CanFlowTo<typeof untrusted, typeof alice> = false
+    const f3: CanFlowTo<typeof alice, DCLUB<typeof alice, typeof untrusted>> = true
+
+    console.log(showDC(dcLub(alice, untrusted))) // <Alice, True>
+}
+
+namespace example_dc_integrity {
+    // an admin command executor only accepts commands vouched for by Admin.
+    const admin = dc([], [["Admin"]])
+    const exec = snk(admin, async (cmd: string) => console.log("exec", cmd))
+
+    const trusted = label(dc([], [["Admin"]]), "rotate-logs")
+    const fromUser = label(dc([], []), "rm -rf /")
+
+    const m0 = output(exec)(trusted)
+    // @ts-expect-error : no one vouched for user input; it cannot reach the executor
+    const m1 = output(exec)(fromUser)
+
+    const m2 = bind(unLabel(trusted), (cmd) => output(exec)(label(admin, cmd)))
+    // @ts-expect-error : the data-label of the user input does not flow to the executor's PC
+    const m3 = bind(unLabel(fromUser), (cmd) => output(exec)(label(admin, cmd)))
+}
+
+namespace example_dc_secrecy {
+    const alice = dc([["Alice"]], [])
+    const bob = dc([["Bob"]], [])
+    const src_alice = src(alice, async () => "Alice's diary")
+    const snk_bob = snk(bob, async (s: string) => console.log(s))
+
+    const m0 = bind(unLabel(label(alice, 5)), (n) => dcRet(n + 1))
+    // @ts-expect-error : Alice's data cannot be written to Bob's sink
+    const m1 = bind(unLabel(label(alice, "x")), (s) => output(snk_bob)(label(bob, s)))
+    const m2 = input(src_alice)
+
+    // label, unLabel, bind, src, snk, input and output take DC labels too;
+    // a DC computation is run with dcRunLIO.
+    dcRunLIO(bind(unLabel(label(bob, "hi Bob")), (s) => output(snk_bob)(label(bob, s)))) // logs hi Bob
+}
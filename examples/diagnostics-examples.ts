@@ -0,0 +1,44 @@
+import {label} from "../src/components/label";
+import {levelOf} from "../src/components/lattice";
+import {bind, bindAsync, unLabel} from "../src/components/monad";
+import {input, output, snk, src} from "../src/components/monad-io";
+import {downPC, upData} from "../src/components/monad-utility";
+import {FlowViolation, RequireFlow} from "../src/components/enforcement";
+
+// DIAGNOSTICS_____________________________________________
+
+// a flow the type checker rejects is reported as a FlowViolation,
+// naming the levels, e.g. for output below:
+//   Argument of type 'Labeled<"Bob" | "Amy", string>' is not assignable to parameter
+//   of type 'Labeled<"Bob" | "Amy", string> & FlowViolation<"cannot flow", "Bob" | "Amy", "Bob">'.
+
+namespace example_diagnostics {
+    const amy = "Amy"
+    const bob = "Bob"
+    const src_amy = src(amy, async () => "Amy's data")
+    const snk_bob = snk(bob, async (s: string) => console.log(s))
+    const both = label(levelOf<"Amy" | "Bob">([amy, bob]), "ours")
+
+    // @ts-expect-error : FlowViolation<"cannot flow", "Bob" | "Amy", "Bob">
+    const m0 = output(snk_bob)(both)
+    // @ts-expect-error : FlowViolation<"cannot flow", "Bob" | "Amy", "Bob">
+    const m1 = bind(unLabel(both), (s) => output(snk_bob)(label(bob, s)))
+    // @ts-expect-error : FlowViolation<"cannot flow", "Amy", "Bob">
+    const m2 = bindAsync(input(src_amy), output(snk_bob))
+    // @ts-expect-error : FlowViolation<"cannot flow", "Bob" | "Amy", "Bob">
+    const m3 = upData(bob, unLabel(both))
+    // @ts-expect-error : FlowViolation<"cannot flow", "Amy", "Bob">
+    const m4 = downPC(amy, output(snk_bob)(label(bob, "hi")))
+}
+
+// the messages themselves are locked in here.
+namespace example_diagnostics_types {
+    type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false
+
+    const t0: Equals<RequireFlow<"Amy" | "Bob", "Bob">, FlowViolation<"cannot flow", "Amy" | "Bob", "Bob">> = true
+    const t1: Equals<RequireFlow<"Bob", "Amy" | "Bob">, unknown> = true
+    const t2: Equals<RequireFlow<"Amy", string>, unknown> = true
+    const t3: Equals<RequireFlow<"Amy", "Bob", "above clearance">, FlowViolation<"above clearance", "Amy", "Bob">> = true
+    // @ts-expect-error : the message names both levels
+    const t4: Equals<RequireFlow<"Amy", "Bob">, FlowViolation<"cannot flow", "Amy", string>> = true
+}
@@ -0,0 +1,63 @@
+import {LIO, ret, toLabeled, unLabel, unsafe_runLIO} from "../src/components/monad";
+import {Level, LUB, Top} from "../src/components/lattice";
+import {label, Labeled} from "../src/components/label";
+import {input, output} from "../src/components/monad-io";
+import {memorySnk, memorySrc} from "../src/components/io-memory";
+import {lioDo, lioDoAsync, step, stepAsync} from "../src/components/monad-do";
+
+// compile with --downlevelIteration (yield* when targeting ES5).
+
+// lconcat of monad-examples.ts, as a do-block.
+namespace example_do_concat {
+    const lconcat = <L1 extends Level, L2 extends Level>(lb1: Labeled<L1, string>, lb2: Labeled<L2, string>) =>
+        lioDo(function* () {
+            const s1 = yield* step(unLabel(lb1))
+            const s2 = yield* step(unLabel(lb2))
+            return s1 + s2
+        })
+
+    const m = lconcat(label("Amy", "a"), label("Bob", "b"))    // LIO<Top, "Amy" | "Bob", string>
+    const m_: LIO<Top, LUB<"Amy", "Bob">, string> = m
+    // @ts-expect-error : the data-level is "Amy" | "Bob", not "Amy"
+    const m__: LIO<Top, "Amy", string> = m
+
+    // the levels of a block are those of its steps.
+    const n = lioDo(function* () {
+        const a = yield* step(unLabel(label("Amy", 1)))
+        const b = yield* step(ret(2))
+        const lc = yield* step(toLabeled(unLabel(label("Bob", 3))))    // boxed: the block stays "Amy"
+        return [a + b, lc] as const
+    })
+    const n_: LIO<Top, "Amy", readonly [number, Labeled<"Bob", number>]> = n
+}
+
+// async steps: read, then write.
+namespace example_do_async {
+    const src_amy = memorySrc("Amy", () => "hello")
+    const snk_amy = memorySnk<"Amy", string>("Amy")
+    const snk_pub = memorySnk<"Public", string>("Public")
+
+    const copy = lioDoAsync(function* () {
+        const lv = yield* stepAsync(input(src_amy))
+        const s = yield* step(unLabel(lv))
+        yield* stepAsync(output(snk_amy.snk)(label("Amy", `${s}!`)))
+        return s.length
+    })
+
+    unsafe_runLIO(copy).then((n) => {
+        snk_amy.expectWrites(["hello!"])
+        console.log(n)    // 5
+    })
+
+    // @ts-expect-error : "Amy" does not flow to "Public" (the output's PC)
+    const leak = lioDoAsync(function* () {
+        const lv = yield* stepAsync(input(src_amy))
+        const s = yield* step(unLabel(lv))
+        yield* stepAsync(output(snk_pub.snk)(label("Public", s)))
+    })
+
+    // @ts-expect-error : async steps need lioDoAsync
+    const sync = lioDo(function* () {
+        yield* stepAsync(input(src_amy))
+    })
+}
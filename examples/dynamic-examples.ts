@@ -0,0 +1,43 @@
+import {label} from "../src/components/label";
+import {Level, lub, showLevel} from "../src/components/lattice";
+import {bind, runLIO, unLabel} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {FlowViolationError} from "../src/components/enforcement";
+
+namespace example_dynamic {
+    // the mode is chosen per run.
+    const dynamic = {mode: "dynamic"} as const
+
+    // labels from untyped data: statically, all we know is Level.
+    const parsed = JSON.parse('{"owner": "Amy", "text": "hi Bob"}')
+    const lv = label<Level, string>(parsed.owner, parsed.text)
+
+    // the type checker is happy (Level <: Level) ...
+    const snk_bob = snk<Level, string>("Bob", async (s) => console.log(s))
+
+    // ... but the runtime check is not.
+    try {
+        runLIO(output(snk_bob)(lv), dynamic)
+    } catch (e) {
+        if (e instanceof FlowViolationError) {
+            console.log(showLevel(e.source), "->", showLevel(e.sink)) // "Amy" -> "Bob"
+        }
+    }
+
+    // levels are real sets at runtime.
+    const l0 = lub<Level, Level>("Amy", "Bob")
+    console.log(showLevel(l0)) // "Amy" | "Bob"
+
+    // bind checks too: Amy-data cannot reach a computation whose pc is Bob.
+    // (the write is rejected before it happens: the current label is "Amy" by then)
+    const m0 = unLabel(lv)
+    const m1 = bind(m0, (s) => output(snk_bob)(label<Level, string>("Bob", s)))
+    try {
+        runLIO(m1, dynamic)
+    } catch (e) {
+        console.log((e as Error).message) // output: cannot flow "Amy" | "Bob" to "Bob"
+    }
+
+    // in static mode (the default), nothing is checked at runtime.
+    runLIO(output(snk_bob)(lv))
+}
@@ -0,0 +1,31 @@
+import {label} from "../src/components/label";
+import {bind, ret, unLabel, unsafe_runLIO} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {catchLIO, finallyLIO, throwLIO} from "../src/components/monad-exception";
+
+namespace example_exceptions {
+    const amy = "Amy"
+    const bob = "Bob"
+    const snk_amy = snk(amy, async (s: string) => console.log("to Amy:", s))
+    const snk_bob = snk(bob, async (s: string) => console.log("to Bob:", s))
+
+    // fails on Amy's data (e.g. a parse error quoting it).
+    const m0 = bind(unLabel(label(amy, "not a number")), (s) =>
+        isNaN(Number(s)) ? throwLIO(label(amy, `bad input: ${s}`)) : ret(Number(s)))
+
+    // the handler sees the failure labeled with Amy, and may tell Amy ...
+    const m1 = catchLIO(m0, (e) => output(snk_amy)(label(amy, String(e.unsafeGetValue()))))
+    // @ts-expect-error : ... but not Bob: whether it runs depends on Amy's data.
+    const m2 = catchLIO(m0, (e) => output(snk_bob)(label(bob, "something failed")))
+
+    // a clean-up step runs either way, after m0 has read Amy's data.
+    const m3 = finallyLIO(m0, output(snk_amy)(label(amy, "done")))
+    // @ts-expect-error : so it cannot write to Bob either.
+    const m4 = finallyLIO(m0, output(snk_bob)(label(bob, "done")))
+
+    unsafe_runLIO(m1)
+
+    // the failure carries the label it was thrown at, in static mode too.
+    const m5 = catchLIO(bind(unLabel(label(amy, 0)), () => { throw new Error("oops") }), (e) => ret(e.getLabel()))
+    console.log(unsafe_runLIO(m5)) // Amy
+}
@@ -0,0 +1,48 @@
+import {pipe} from "fp-ts/function";
+import * as A from "fp-ts/Array";
+import * as R from "fp-ts/Record";
+import {LIO, ret, runLIO, unLabel} from "../src/components/monad";
+import {Level, LUB, showLevel, Top} from "../src/components/lattice";
+import {label} from "../src/components/label";
+import {output, snk} from "../src/components/monad-io";
+import {apLIO, ApplicativeLIO, chainLIO, mapLIO, MonadLIO} from "../src/misc/custom-fp-ts";
+
+// pipe, with bind's label arithmetic.
+namespace example_pipe {
+    const m = pipe(
+        unLabel(label("Amy", 20)),
+        mapLIO((n) => n + 1),
+        chainLIO((n) => pipe(unLabel(label("Bob", 21)), mapLIO((k) => n + k)))
+    )
+    const m_: LIO<Top, LUB<"Amy", "Bob">, number> = m
+
+    const add = pipe(
+        ret((a: number) => (b: number) => a + b),
+        apLIO(unLabel(label("Amy", 1))),
+        apLIO(unLabel(label("Bob", 2)))
+    )
+    const add_: LIO<Top, LUB<"Amy", "Bob">, number> = add
+
+    const snk_bob = snk("Bob", async (s: string) => console.log(s))
+    // @ts-expect-error : "Amy" does not flow to "Bob" (the PC of the output)
+    const leak = pipe(unLabel(label("Amy", "secret")), chainLIO((s) => output(snk_bob)(label("Bob", s))))
+}
+
+// sequence and traverse, with the type classes.
+// a Kind3 has one PC-level and one data-level: here, Top and "Amy" | "Bob".
+namespace example_sequence {
+    type AmyOrBob = LUB<"Amy", "Bob">
+    const ms: LIO<Top, AmyOrBob, number>[] = [unLabel(label("Amy", 1)), unLabel(label("Bob", 2)), ret(3)]
+
+    const all = A.sequence(ApplicativeLIO)(ms)                // LIO<Top, "Amy" | "Bob", number[]>
+    console.log(showLevel(runLIO(all).getLabel()))             // "Amy" | "Bob"
+
+    const doubled = pipe([1, 2, 3], A.traverse(ApplicativeLIO)((n) => ret(2 * n) as LIO<Top, "Amy", number>))
+
+    const record = R.sequence(ApplicativeLIO)({amy: unLabel(label("Amy", 1)), bob: ret(2) as LIO<Top, "Amy", number>})
+
+    // a computation whose data must not flow to its PC is not a Kind3.
+    const writeThenRead: LIO<"Bob", "Amy", number> = () => { throw new Error("not run") }
+    // @ts-expect-error : "Amy" does not flow to "Bob"
+    const bad = MonadLIO.chain(writeThenRead, (n) => ret(n))
+}
@@ -0,0 +1,40 @@
+import {label, upLabel} from "../src/components/label";
+import {bind, unLabel} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {downPC} from "../src/components/monad-utility";
+import {ActsFor, hierarchy} from "../src/components/hierarchy";
+
+namespace example_hierarchy {
+    // Admin acts for every Employee; the Employee role covers Amy and Bob.
+    const org = hierarchy({Admin: ["Employee"], Employee: ["Amy", "Bob"], Cat: []})
+    type Org = typeof org.declaration
+
+    const admin = org.level("Admin")            // "Admin" | "Employee" | "Amy" | "Bob"
+    const amy = org.level("Amy")                // "Amy"
+
+    const t0: ActsFor<Org, "Admin", "Amy"> = true
+    const t1: ActsFor<Org, "Amy", "Admin"> = false
+    const t2: ActsFor<Org, "Cat", "Amy"> = false
+
+    const snk_admin = snk(admin, async (s: string) => console.log("to Admin:", s))
+    const snk_amy = snk(amy, async (s: string) => console.log("to Amy:", s))
+    const snk_cat = snk(org.level("Cat"), async (s: string) => console.log("to Cat:", s))
+
+    // output: Amy's data may go to Admin ...
+    const m0 = output(snk_admin)(label(amy, "Amy's data"))
+    // @ts-expect-error : ... but not to Cat, who acts for no one,
+    const m1 = output(snk_cat)(label(amy, "Amy's data"))
+    // @ts-expect-error : ... and Admin's data not to Amy.
+    const m2 = output(snk_amy)(label(admin, "Admin's data"))
+
+    // bind: a computation that read Amy's data may write to Admin.
+    const m3 = bind(unLabel(label(amy, "Amy's data")), (s) => output(snk_admin)(label(amy, s)))
+
+    // upLabel: Amy's data may be relabeled for Admin.
+    const lv0 = upLabel<"Amy", typeof admin, string>(admin)(label(amy, "Amy's data"))
+
+    // downPC: a computation that writes to Admin only, also writes at or above Amy.
+    const m4 = downPC(amy, output(snk_admin)(label(amy, "Amy's data")))
+    // @ts-expect-error : but not at or above Cat.
+    const m5 = downPC(org.level("Cat"), output(snk_admin)(label(amy, "Amy's data")))
+}
@@ -0,0 +1,48 @@
+import {input, output, snk, src} from "../../src/components/monad-io";
+import {label} from "../../src/components/label";
+import {levelOf} from "../../src/components/lattice";
+import {bind, bindAsync, ret, unLabel, unsafe_runLIO} from "../../src/components/monad";
+import {allL, forkLIO, raceL, waitLIO} from "../../src/components/monad-concurrency";
+
+namespace example_fork {
+    const amy = "Amy"
+    const bob = "Bob"
+    const src_amy = src(amy, async () => "Amy's data")
+    const src_bob = src(bob, async () => "Bob's data")
+    const snk_amy = snk(amy, async (s: string) => console.log("to Amy:", s))
+
+    // start a read (as a future labeled Amy), and wait for it later.
+    // (the read yields a labeled value, so the future holds one.)
+    const m0 = bind(forkLIO(amy, input(src_amy)), (future) =>
+        bindAsync(waitLIO(future), (lv) => bind(unLabel(lv), output(snk_amy))))
+
+    // @ts-expect-error : the forked computation reads Bob's data; its future cannot be labeled Amy.
+    const m1 = forkLIO(amy, bindAsync(input(src_bob), (lv) => ret(Promise.resolve(lv))))
+
+    unsafe_runLIO(m0)
+}
+
+namespace example_all_race {
+    const amy = "Amy"
+    const bob = "Bob"
+    const src_amy = src(amy, async () => "Amy's data")
+    const src_bob = src(bob, async () => "Bob's data")
+    const snk_amy = snk(amy, async (s: string) => console.log("to Amy:", s))
+    const snk_amy_bob = snk(levelOf<"Amy" | "Bob">([amy, bob]), async (s: string) => console.log("to Amy & Bob:", s))
+
+    // read both sources in parallel; both values come out labeled "Amy" | "Bob".
+    const m0 = bind(input(src_amy), (pa) => bind(input(src_bob), (pb) =>
+        bindAsync(ret(allL([pa, pb])), (lv) => bind(unLabel(lv), (vs) =>
+            output(snk_amy_bob)(label(lv.getLabel(), vs.join(" & ")))))))
+
+    const m1 = bind(input(src_amy), (pa) => bind(input(src_bob), (pb) =>
+        bindAsync(ret(allL([pa, pb])), (lv) =>
+            // @ts-expect-error : the pair has Bob's data, so it cannot go to Amy.
+            bind(unLabel(lv), (vs) => output(snk_amy)(label(lv.getLabel(), vs.join(" & ")))))))
+
+    // the winner of a race is labeled with both labels, too.
+    const m2 = bind(input(src_amy), (pa) => bind(input(src_bob), (pb) =>
+        bindAsync(ret(raceL([pa, pb])), (lv) => output(snk_amy_bob)(lv))))
+
+    unsafe_runLIO(m0)
+}
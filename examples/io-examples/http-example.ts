@@ -0,0 +1,27 @@
+import {label} from "../../src/components/label";
+import {bindAsync} from "../../src/components/monad";
+import {input, output} from "../../src/components/monad-io";
+import {LabeledHandler, labeledServer} from "../../src/components/io-http";
+
+namespace example_http {
+    type User = "Amy" | "Bob"
+
+    // a toy authentication: the user is named in a header.
+    const authenticate = (req: { headers: { [h: string]: unknown } }): User | undefined =>
+        req.headers["x-user"] === "Amy" || req.headers["x-user"] === "Bob" ? req.headers["x-user"] as User : undefined
+
+    // echoes the request body back to the requester.
+    const echo: LabeledHandler<User> = (req, res) =>
+        bindAsync(input(req.body), output(res))
+
+    // the handler does not know who the requester is,
+    // so it cannot respond with Bob's data.
+    const leaky: LabeledHandler<User> = (req, res) =>
+        // @ts-expect-error : "Bob" does not flow to an arbitrary requester
+        output(res)(label("Bob", "Bob's diary"))
+
+    // try it on the loopback interface:
+    //   curl -H 'x-user: Amy' -d 'hi' http://127.0.0.1:8080/
+    const server = labeledServer(authenticate, echo)
+    // server.listen(8080, "127.0.0.1")
+}
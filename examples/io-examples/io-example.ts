@@ -1,7 +1,8 @@
-import {readFileSync, writeFileSync} from 'fs';
+import {readFile, writeFile} from 'fs/promises';
 import {input, output, snk, Snk, src, Src} from "../../src/components/monad-io";
 import {label} from "../../src/components/label";
-import {bind} from "../../src/components/monad";
+import {bindAsync, unsafe_runLIO} from "../../src/components/monad";
+import {fileSnk, fileSrc, labeledDir} from "../../src/components/io-fs";
 
 // IO_EXAMPLES_____________________________________________
 
@@ -26,6 +27,7 @@ import {bind} from "../../src/components/monad";
 // Src<L,V>, and Snk<L,V>.
 // (I'm modeling the down-classifiability using PC; should really be renamed,
 // e.g. to Contra<L>)
+// (for when you do need both, there is now LIORef<L,V>, in monad-ref.ts.)
 
 namespace example_io {
     // first, our two principals:
@@ -35,20 +37,17 @@ namespace example_io {
     type Bob = typeof bob
 
     // next, a source and sink for each of them.
-    const src_amy: Src<Amy, string> = src(amy, () => {
-        const b = readFileSync("amy-src.txt");
+    // readers and writers are async.
+    const src_amy: Src<Amy, string> = src(amy, async () => {
+        const b = await readFile("amy-src.txt");
         return b.toString()
     })
-    const src_bob: Src<Bob, string> = src(bob, () => {
-        const b = readFileSync("bob-src.txt");
+    const src_bob: Src<Bob, string> = src(bob, async () => {
+        const b = await readFile("bob-src.txt");
         return b.toString()
     })
-    const snk_amy: Snk<Amy, string> = snk(amy, (s) => {
-        writeFileSync("amy-snk.txt", s)
-    })
-    const snk_bob: Snk<Bob, string> = snk(bob, (s) => {
-        writeFileSync("bob-snk.txt", s)
-    })
+    const snk_amy: Snk<Amy, string> = snk(amy, (s) => writeFile("amy-snk.txt", s))
+    const snk_bob: Snk<Bob, string> = snk(bob, (s) => writeFile("bob-snk.txt", s))
 
     // finally, some I/O:
 
@@ -58,10 +57,14 @@ namespace example_io {
     const mbw = output(snk_bob)(label(bob, "Hello from Bob!\n"))
 
     // can read from amy-source, and write what's read to amy-sink.
-    const bd0 = bind(input(src_amy), output(snk_amy))
+    const bd0 = bindAsync(input(src_amy), output(snk_amy))
+
+    // nothing has been read or written yet; this does it.
+    const done = unsafe_runLIO(bd0)
 
     // cannot write amy-labeled data to bob-labeled sink
-    //const bd1 = bind( inp(src_amy), out(snk_bob) )
+    // @ts-expect-error : "Amy" does not flow to "Bob"
+    const bd1 = bindAsync(input(src_amy), output(snk_bob))
 
     // WOOPS; deconstructing Labeled<L,V> (pattern match "([l,s]) =>" aka destructuring assignm.)
     // w/o using API primitives (unlabel), then I completely circumvent IFC altogether!
@@ -69,3 +72,22 @@ namespace example_io {
     // (encapsulation? i.e. classes, function closures, private variables, etc.?)
     //const bd2 = bind( mar, ([l,s]) => out(snk_bob)([bob,s]) )
 }
+
+
+namespace example_io_fs {
+    // the same, with the file sources and sinks that ship with the library.
+    const src_amy = fileSrc("Amy", "amy-src.txt")
+    const snk_amy = fileSnk("Amy", "amy-snk.txt", {append: true})
+    const bd0 = bindAsync(input(src_amy), output(snk_amy))
+
+    // or, label files by where they are.
+    const dir = labeledDir(".", {"amy-": "Amy", "bob-": "Bob"}, "Admin")
+    const bd1 = bindAsync(input(dir.fileSrc("bob-src.txt")), output(dir.fileSnk("bob-snk.txt")))
+    // @ts-expect-error : "Bob" does not flow to "Amy"
+    const bd2 = bindAsync(input(dir.fileSrc("bob-src.txt")), output(dir.fileSnk("amy-snk.txt")))
+
+    // a path gets the label of its longest matching prefix, at runtime as in its type.
+    const nested = labeledDir(".", {"amy-": "Amy", "amy-public-": "Public"}, "Admin")
+    const l0: "Public" = nested.labelOf("amy-public-notes.txt")
+    const l1: "Amy" = nested.labelOf("amy-notes.txt")
+}
@@ -0,0 +1,36 @@
+import {input, output} from "../../src/components/monad-io";
+import {label} from "../../src/components/label";
+import {botLevel} from "../../src/components/lattice";
+import {bindAsync, unsafe_runLIO} from "../../src/components/monad";
+import {memorySnk, memorySrc} from "../../src/components/io-memory";
+
+namespace example_memory {
+    // a unit test of a small pipeline, without files or sockets.
+    const src_amy = memorySrc("Amy", ["hello", "world"])
+    const snk_amy = memorySnk<"Amy", string | undefined>("Amy")
+    const snk_bob = memorySnk<"Bob", string | undefined>("Bob")
+
+    const copy = bindAsync(input(src_amy), snk_amy.write)
+    // @ts-expect-error : "Amy" does not flow to "Bob"
+    const leak = bindAsync(input(src_amy), output(snk_bob.snk))
+
+    unsafe_runLIO(copy).then(() => {
+        snk_amy.expectWrites(["hello"])
+        snk_bob.expectNoWrites()
+        console.log(snk_amy.writes[0].label)    // "Amy"
+    })
+
+    // a slow source, and a sink that fails on its first write.
+    const slow = memorySrc("Amy", (i) => `line ${i}`, {delay: 100})
+    const flaky = memorySnk<"Amy", string>("Amy", {fail: (i) => i === 0 ? new Error("disk full") : undefined})
+    // the write of labeled data below, straight from the test, comes
+    // first (the source is slow), so it is the one that fails.
+    unsafe_runLIO(bindAsync(input(slow), output(flaky.snk)))
+        .then(() => console.log(flaky.values()))    // [ 'line 0' ]
+    unsafe_runLIO(flaky.write(label("Amy", "again")))
+        .catch((e) => console.log(e.unsafeGetValue().message))    // "disk full"
+    // through output, the write is recorded with the sink's label.
+    const snk_log = memorySnk<"Amy", string>("Amy")
+    unsafe_runLIO(output(snk_log.snk)(label(botLevel, "public")))
+        .then(() => console.log(snk_log.writes[0].label))    // "Amy"
+}
@@ -0,0 +1,26 @@
+import {label} from "../../src/components/label";
+import {bind, bindAsync, LIO, unLabel} from "../../src/components/monad";
+import {input, output} from "../../src/components/monad-io";
+import {ConnectionHandler, LabeledConnection, labeledSocketServer} from "../../src/components/io-net";
+
+namespace example_sockets {
+    type Peer = "Amy" | "Bob"
+
+    // the client's first line says who it is (a real server would check a token).
+    const labelOf = (_: unknown, handshake: string | undefined): Peer | undefined =>
+        handshake === "Amy" || handshake === "Bob" ? handshake : undefined
+
+    // replies to the peer's next line. (the line is the peer's, L, and so is the reply.)
+    const shout: ConnectionHandler<Peer, "newline"> = <L extends Peer>(conn: LabeledConnection<L, "newline">) =>
+        bindAsync(input(conn.src), (line): LIO<L, L, Promise<null>> =>
+            bind(unLabel(line), (s) => output(conn.snk)(label(conn.principal, String(s).toUpperCase()))))
+
+    // the handler does not know who the peer is, so it cannot send Amy's data.
+    const leaky: ConnectionHandler<Peer, "newline"> = (conn) =>
+        // @ts-expect-error : "Amy" does not flow to an arbitrary peer
+        output(conn.snk)(label("Amy", "Amy's diary"))
+
+    // serve it on a Unix domain socket (or a port):
+    const server = labeledSocketServer(labelOf, shout, {handshake: true})
+    // server.listen("/tmp/shout.sock")
+}
@@ -12,8 +12,8 @@ namespace examples_labels_as_values {
     // then the following succeeds (despite x2 being a Amy-container)
     x2 = x1
     // now suppose we keep levels at the value-level.
-    const y0: Labeled<typeof amy, number> = [amy, 4]
-    const y1: Labeled<typeof bob, number> = [bob, 4]
+    const y0: Labeled<typeof amy, number> = label(amy, 4)
+    const y1: Labeled<typeof bob, number> = label(bob, 4)
     let y2 = y0
     // @ts-expect-error : cannot assign Bob-labeled data to Amy-container
     y2 = y1
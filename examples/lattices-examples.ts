@@ -0,0 +1,59 @@
+import {label, Labeled} from "../src/components/label";
+import {LEQ} from "../src/components/lattice";
+import {classification, ClassificationLevels, Pair, product, twoPoint, TwoPointLevels} from "../src/components/lattices";
+import {bind, runLIO, unLabel} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+
+namespace example_two_point {
+    type Public = TwoPointLevels["Public"]
+    type Secret = TwoPointLevels["Secret"]
+    const {Public, Secret} = twoPoint.levels
+
+    const w0: LEQ<Public, Secret> = true
+    // @ts-expect-error : Secret does not flow to Public
+    const w1: LEQ<Secret, Public> = true
+
+    // values, sinks and computations carry the lattice their levels are in.
+    const snk_public = snk(Public, async (s: string) => console.log(s), twoPoint)
+    const secret = label(Secret, "hunter2", twoPoint)
+    const greeting = label(Public, "hello", twoPoint)
+    // @ts-expect-error : cannot write Secret data to a Public sink
+    const m0 = bind(unLabel(secret), (s) => output(snk_public)(label(Public, s, twoPoint)))
+
+    // ... and run in it (a computation in another lattice must be given it).
+    const m1 = output(snk_public)(greeting)
+    runLIO(m1, {lattice: twoPoint, mode: "dynamic"}) // logs hello
+    // @ts-expect-error : m1 is in the two-point lattice
+    const run1 = () => runLIO(m1)
+}
+
+namespace example_classification {
+    type C = ClassificationLevels["Confidential"]
+    type S = ClassificationLevels["Secret"]
+    type TS = ClassificationLevels["TopSecret"]
+    const {Confidential, TopSecret} = classification.levels
+
+    const w0: LEQ<C, S> = true
+    const w1: LEQ<S, TS> = true
+    // @ts-expect-error : TopSecret does not flow to Confidential
+    const w2: LEQ<TS, C> = true
+
+    // at runtime.
+    const b0 = classification.leq(Confidential, TopSecret) // true
+    const l0 = classification.lub(Confidential, TopSecret) // TopSecret
+}
+
+namespace example_product {
+    const lat = product(twoPoint, classification)
+    const {Public, Secret} = twoPoint.levels
+    const {Confidential, TopSecret} = classification.levels
+
+    const p0 = lat.pair(Public, TopSecret)
+    const p1 = lat.pair(Secret, Confidential)
+    const l0 = lat.lub(p0, p1) // (Secret, TopSecret)
+
+    const lv: Labeled<typeof p0, number> = label(p0, 42)
+    // @ts-expect-error : (Public, TopSecret) does not flow to (Secret, Confidential)
+    const lv1: Labeled<typeof p1, number> = lv
+    const lv2: Labeled<Pair<TwoPointLevels["Secret"], ClassificationLevels["TopSecret"]>, number> = lv
+}
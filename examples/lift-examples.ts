@@ -0,0 +1,44 @@
+import {LIO, ret, runLIO, unLabel} from "../src/components/monad";
+import {LUB, Top} from "../src/components/lattice";
+import {label, Labeled} from "../src/components/label";
+import {output, snk} from "../src/components/monad-io";
+import {liftL, liftLIO} from "../src/components/lift";
+
+// lconcat of monad-examples.ts, lifted.
+namespace example_liftL {
+    const lconcat = liftL((s1: string, s2: string) => s1 + s2)
+
+    const lv = lconcat(label("Amy", "a"), label("Bob", "b"))
+    const lv_: Labeled<LUB<"Amy", "Bob">, string> = lv
+    // @ts-expect-error : the label is "Amy" | "Bob", not "Amy"
+    const lv__: Labeled<"Amy", string> = lv
+
+    // for an LIO with that data-level, unLabel it.
+    const m: LIO<Top, LUB<"Amy", "Bob">, string> = unLabel(lconcat(label("Amy", "a"), label("Bob", "b")))
+
+    // any number of arguments, of any types.
+    const clamp = liftL((x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x)))
+    const c: Labeled<"Amy" | "Bob" | "Eve", number> = clamp(label("Amy", 7), label("Bob", 0), label("Eve", 5))
+    // @ts-expect-error : the second argument must be a labeled number
+    const c_ = clamp(label("Amy", 7), label("Bob", "0"), label("Eve", 5))
+    // @ts-expect-error : three arguments
+    const c__ = clamp(label("Amy", 7), label("Bob", 0))
+
+    // no arguments: nothing to depend on.
+    const zero: Labeled<never, number> = liftL(() => 0)()
+}
+
+// functions that return a computation.
+namespace example_liftLIO {
+    const snk_bob = snk("Bob", async (s: string) => console.log(s))
+    const greet = liftLIO((greeting: string, name: string) => output(snk_bob)(label("Bob", `${greeting}, ${name}`)))
+
+    const ok = greet(label("Bob", "hi"), label("Bob", "bob"))
+    runLIO(ok)
+    // @ts-expect-error : "Amy" does not flow to "Bob" (the PC of the output)
+    const leak = greet(label("Amy", "hi"), label("Bob", "bob"))
+
+    // fn's data-level is joined with the arguments'.
+    const add = liftLIO((a: number, b: number) => unLabel(label("Eve", a + b)))
+    const sum: LIO<Top, "Amy" | "Bob" | "Eve", number> = add(label("Amy", 1), label("Bob", 2))
+}
@@ -5,7 +5,7 @@ import {downPC, upData} from "../src/components/monad-utility";
 import {label, Labeled} from "../src/components/label";
 
 namespace example_reclassify {
-    const c0: LIO<Top, Bot, number> = [toContravariant(topLevel), botLevel, 5]
+    const c0: LIO<Top, Bot, number> = () => [toContravariant(topLevel), botLevel, 5]
 
     const c1 = downPC(lub("Alice", "Bob"), c0)
     const c2 = downPC("Alice", c1)
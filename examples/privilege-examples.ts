@@ -0,0 +1,40 @@
+import {label, Labeled} from "../src/components/label";
+import {lub} from "../src/components/lattice";
+import {bind, unLabel} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {dcDeclassify, dcEndorse, declassify, mintPrivilege, setAuditLogger} from "../src/components/privilege";
+import {dc} from "../src/components/dc-label";
+
+namespace example_declassify {
+    setAuditLogger(e => console.log(`${e.operation} by ${e.principal}: ${e.from} -> ${e.to} at ${e.callSite}`))
+
+    const amy = mintPrivilege("Amy")
+    const snk_bob = snk("Bob", async (s: string) => console.log(s))
+
+    // Amy and Bob's shared secret. Amy agrees to release it to Bob.
+    const shared = label(lub("Amy", "Bob"), "meet at noon")
+    // @ts-expect-error : "Amy" | "Bob" does not flow to "Bob"
+    const m0 = output(snk_bob)(shared)
+    const m1 = output(snk_bob)(declassify(amy, shared))
+
+    // the same, on the data-level of a computation.
+    const m2 = declassify(amy, unLabel(shared))
+    const m3 = bind(m2, (s) => output(snk_bob)(label("Bob", s)))
+
+    // a privilege for Amy does nothing for Carol's data.
+    const carols: Labeled<"Carol", string> = declassify(amy, label("Carol", "diary"))
+}
+
+namespace example_endorse {
+    const admin = mintPrivilege("Admin")
+    const exec = snk(dc([], [["Admin"]]), async (cmd: string) => console.log("exec", cmd))
+
+    const fromUser = label(dc([], []), "restart")
+    // @ts-expect-error : no one vouched for user input
+    const m0 = output(exec)(fromUser)
+    // after review, the admin vouches for it.
+    const m1 = output(exec)(dcEndorse(admin, fromUser))
+
+    const secret = label(dc([["Admin", "Ops"]], []), "password")
+    const released = dcDeclassify(admin, secret) // secrecy: True
+}
@@ -0,0 +1,64 @@
+import {label, Labeled} from "../src/components/label";
+import {bind, unLabel} from "../src/components/monad";
+import {output, snk} from "../src/components/monad-io";
+import {collapse, labeledRecord, merge, omit, pick, project, spread} from "../src/components/labeled-record";
+
+namespace example_record {
+    const pub = "Public"
+    const sec = "Secret"
+    const snk_pub = snk(pub, async (s: string) => console.log("public:", s))
+
+    // a user, with a public name and a secret SSN.
+    const user = labeledRecord({
+        name: label(pub, "Amy"),
+        ssn: label(sec, "123-45-6789")
+    })
+
+    // reading the name does not read the SSN: the name may go public ...
+    const m0 = bind(unLabel(project(user, "name")), (n) => output(snk_pub)(label(pub, `hello ${n}`)))
+    // @ts-expect-error : ... the SSN may not.
+    const m1 = bind(unLabel(project(user, "ssn")), (s) => output(snk_pub)(label(pub, s)))
+
+    // pick, omit and merge keep each field's label.
+    const r0 = pick(user, "name")
+    const r1 = omit(user, "ssn")
+    const r2 = merge(user, labeledRecord({email: label(sec, "amy@example.com")}))
+    const l0: Labeled<"Public", string> = r0.name
+    const l1: Labeled<"Public", string> = r1.name
+    const l2: Labeled<"Secret", string> = r2.email
+    // @ts-expect-error : the SSN is gone.
+    const l3 = r1.ssn
+
+    // collapsing labels the whole record with the lub of the fields' labels.
+    const lv0 = collapse(user)
+    const lv1: Labeled<"Public" | "Secret", { name: string, ssn: string }> = lv0
+    // @ts-expect-error : which is not Public.
+    const lv2: Labeled<"Public", { name: string, ssn: string }> = lv0
+    const m2 = bind(unLabel(collapse(pick(user, "name"))), (u) => output(snk_pub)(label(pub, u.name)))
+
+    // and back: each field gets the whole record's label.
+    const r3 = spread(lv0)
+    const l4: Labeled<"Public" | "Secret", string> = r3.name
+    // a record whose keys are data cannot be spread: its keys would not be labeled.
+    const scores = label(sec, {amy: 1, bob: 2} as { [user: string]: number })
+    // @ts-expect-error : which users have a score is Secret.
+    const r4 = spread(scores)
+}
+
+namespace example_record_spread {
+    const sec = "Secret"
+
+    // nor can a record with an optional field: whether Amy has an SSN is Secret ...
+    const user = label(sec, {name: "Amy"} as { name: string, ssn?: string })
+    // @ts-expect-error : ... and would show in the keys of the labeled record.
+    const r0 = spread(user)
+
+    // nor a union of records: which one it is is Secret too.
+    const account = label(sec, {kind: "basic"} as { kind: "basic" } | { kind: "premium", limit: number })
+    // @ts-expect-error : the limit field would tell.
+    const r1 = spread(account)
+
+    // a record that has all the fields its type names can be spread.
+    const r2 = spread(label(sec, {name: "Amy", ssn: "123-45-6789"}))
+    const l0: Labeled<"Secret", string> = r2.ssn
+}
@@ -0,0 +1,27 @@
+import {label} from "../src/components/label";
+import {bind, unLabel, unsafe_runLIO} from "../src/components/monad";
+import {LIORef, modifyLIORef, newLIORef, readLIORef, writeLIORef} from "../src/components/monad-ref";
+
+namespace example_ref {
+    const amy = "Amy"
+    const bob = "Bob"
+
+    const m0 = newLIORef(amy, 0)                             // LIO<"Amy", never, LIORef<"Amy", number>>
+    const m1 = bind(m0, (ref) => readLIORef(ref))            // LIO<"Amy", "Amy", number>
+    const m2 = bind(m0, (ref) => modifyLIORef(ref, n => n + 1))
+
+    // Amy's data can be written to Amy's reference ...
+    const m3 = bind(m0, (ref) => bind(unLabel(label(amy, 4)), (n) => writeLIORef(ref, n)))
+    // @ts-expect-error : ... but Bob's data cannot.
+    const m4 = bind(m0, (ref) => bind(unLabel(label(bob, 4)), (n) => writeLIORef(ref, n)))
+}
+
+namespace example_ref_invariant {
+    const ref = unsafe_runLIO(newLIORef<"Amy", number>("Amy", 0))
+    // @ts-expect-error : cannot up-classify a reference
+    const r0: LIORef<"Amy" | "Bob", number> = ref
+    // @ts-expect-error : cannot down-classify a reference
+    const r1: LIORef<never, number> = ref
+    // @ts-expect-error : nor change what it holds
+    const r2: LIORef<"Amy", number | string> = ref
+}
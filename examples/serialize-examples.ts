@@ -0,0 +1,68 @@
+import {label, Labeled, labelIn} from "../src/components/label";
+import {levelOf} from "../src/components/lattice";
+import {twoPoint} from "../src/components/lattices";
+import {deserializeLabeled, labelBelow, labelOneOf, SerializationError, serializeLabeled} from "../src/components/serialize";
+
+namespace example_serialize {
+    const amy = "Amy"
+    const key = "a key shared by writer and reader"
+
+    // write Amy's data to a queue (here, a string), label and all ...
+    const wire = serializeLabeled(amy, label(amy, {balance: 100}), {key})
+
+    // ... and read it back, expecting data Amy may see.
+    const lv0 = deserializeLabeled(wire, labelBelow(amy), {key})
+    const lv1: Labeled<"Amy", unknown> = lv0
+    // @ts-expect-error : it is not known to be Bob's.
+    const lv2: Labeled<"Bob", unknown> = lv0
+
+    // or, expecting one of some labels.
+    const lv3 = deserializeLabeled(wire, labelOneOf("Amy", "Bob"), {key})
+    const lv4: Labeled<"Amy" | "Bob", unknown> = lv3
+    // @ts-expect-error : it may be Bob's.
+    const lv5: Labeled<"Amy", unknown> = lv3
+}
+
+namespace example_serialize_level {
+    const amy = "Amy"
+    const amyOrBob = levelOf<"Amy" | "Bob">(["Amy", "Bob"])
+
+    // a value may be labeled below its type: this one is typed Amy and Bob's, but labeled Amy.
+    const lv: Labeled<"Amy" | "Bob", string> = label(amy, "shared notes")
+
+    // the level written is the one of its type, not the label it happens to have ...
+    const wire = serializeLabeled(amyOrBob, lv)
+    try {
+        deserializeLabeled(wire, labelBelow(amy))
+    } catch (e) {
+        console.log((e as SerializationError).message) // deserializeLabeled: unexpected label ["Amy","Bob"]
+    }
+    // @ts-expect-error : ... so that it cannot be written as Amy's alone.
+    const wire1 = serializeLabeled(amy, lv)
+
+    // and a label above the level written (e.g. from a wrong cast) is caught at runtime.
+    const lied = label(amyOrBob, "shared notes") as Labeled<"Amy", string>
+    try {
+        serializeLabeled(amy, lied)
+    } catch (e) {
+        console.log((e as Error).message) // serializeLabeled: cannot flow "Amy" | "Bob" to "Amy"
+    }
+}
+
+namespace example_serialize_lattice {
+    const secret = twoPoint.levels.Secret
+
+    // labels of other lattices are read in that lattice, and the value comes back labeled in it ...
+    const wire = serializeLabeled(secret, labelIn(twoPoint, secret, "launch codes"))
+    const lv0 = deserializeLabeled(wire, labelBelow(secret, twoPoint), {lattice: twoPoint})
+    const lv1: Labeled<typeof secret, unknown, typeof twoPoint> = lv0
+
+    // ... and the label read must be one of its elements.
+    const amy = "Amy"
+    const wire1 = serializeLabeled(amy, label(amy, "launch codes"))
+    try {
+        deserializeLabeled(wire1, labelBelow(secret, twoPoint), {lattice: twoPoint})
+    } catch (e) {
+        console.log((e as SerializationError).message) // deserializeLabeled: unexpected label "Amy"
+    }
+}
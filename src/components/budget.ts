@@ -0,0 +1,145 @@
+import {existsSync, readFileSync, writeFileSync} from "fs";
+import {AnyLattice, Level, Principal, Top} from "./lattice";
+import {Labeled, secretsOf} from "./label";
+import {bind, LIO, ret, unLabel} from "./monad";
+import {asFailure} from "./enforcement";
+import {declassify, Priv} from "./privilege";
+
+// LEAKAGE_BUDGETS_________________________________________
+
+// declassifying a small fact about a secret ("does the password
+// match?", "is the balance above zero?") leaks little, but asking
+// again and again leaks it all (guess the password one try at a time).
+// a budgeted declassifier counts what it releases about each secret:
+// each release spends an estimate of the bits it reveals (1 for a
+// yes/no answer, log2 of the number of possible answers in general),
+// and once a secret's budget is spent, further releases fail with a
+// LabeledFailure (see catchLIO) holding a BudgetExhaustedError.
+// budgets are kept per principal (the privilege's) and per secret:
+// the labeled value itself, not a name the caller makes up (a new
+// name would be a new budget). a copy of a secret (by upLabel,
+// toLabeled, liftL, ...) is the same secret (see secretsOf in
+// label.ts): a release about it spends the budget of the secret it
+// was made from, or of each, if several. they are kept in a store, which may
+// persist them (and be shared by declassifiers); the values do not
+// survive a restart, so a file store knows its secrets by name.
+// releases are declassifications: they are audited (see privilege.ts).
+
+/** A secret, as budgets know it: a labeled value (in any lattice). */
+export type Secret = Labeled<Level, unknown, AnyLattice>;
+
+/** Where budgets are kept: bits spent, by principal and secret. */
+export type BudgetStore = {
+    get(principal: Principal, secret: Secret): number | undefined;
+    set(principal: Principal, secret: Secret, spent: number): void;
+}
+
+/** A store that lives in memory (and is lost on exit). */
+export function memoryBudgetStore(): BudgetStore {
+    const spent = new WeakMap<Secret, Map<Principal, number>>();
+    return {
+        get: (p, secret) => spent.get(secret)?.get(p),
+        set: (p, secret, bits) => {
+            const byPrincipal = spent.get(secret) ?? new Map<Principal, number>();
+            byPrincipal.set(p, bits);
+            spent.set(secret, byPrincipal);
+        }
+    };
+}
+
+/**
+ * A store kept in a JSON file (read when made, rewritten on every release),
+ * for the given secrets, by name. Releases about other secrets fail.
+ */
+export function fileBudgetStore(path: string, secrets: { readonly [name: string]: Secret }): BudgetStore {
+    const spent: { [key: string]: number } = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : {};
+    const names = new WeakMap<Secret, string>();
+    Object.keys(secrets).forEach(name => secretsOf(secrets[name]).forEach(s => names.set(s, name)));
+    const key = (p: Principal, secret: Secret): string => {
+        const name = names.get(secret);
+        if (name === undefined) throw new TypeError(`fileBudgetStore: not a secret of ${path}`);
+        return JSON.stringify([p, name]);
+    };
+    return {
+        get: (p, secret) => {
+            const k = key(p, secret);
+            return Object.prototype.hasOwnProperty.call(spent, k) ? spent[k] : undefined;
+        },
+        set: (p, secret, bits) => {
+            spent[key(p, secret)] = bits;
+            writeFileSync(path, JSON.stringify(spent));
+        }
+    };
+}
+
+/** The failure of a release over budget (held by a LabeledFailure). */
+export class BudgetExhaustedError extends Error {
+    readonly principal: Principal;
+    /** The bits the release would have spent. */
+    readonly requested: number;
+    /** The bits left. */
+    readonly remaining: number;
+
+    constructor(principal: Principal, requested: number, remaining: number) {
+        super(`budget of ${principal} exhausted: ${requested} bits requested, ${remaining} left`);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, BudgetExhaustedError.prototype);
+        this.name = "BudgetExhaustedError";
+        this.principal = principal;
+        this.requested = requested;
+        this.remaining = remaining;
+    }
+}
+
+/** Options of budgetedDeclassifier. */
+export type BudgetOptions = {
+    /** The bits that may be released about each secret (or about a given secret). */
+    readonly bits: number | ((secret: Secret) => number);
+    /** Default: a memory store. */
+    readonly store?: BudgetStore;
+}
+
+/** Releases facts about P's secrets, within a budget. */
+export type BudgetedDeclassifier<P extends Principal> = {
+    readonly principal: P;
+    /** Releases a yes/no fact about a secret (1 bit), without P in its label. */
+    release<L extends Level, V>(lv: Labeled<L, V>, query: (v: V) => boolean): LIO<Top, Exclude<L, P>, boolean>;
+    /** Releases a fact about a secret, estimated to reveal `bits` bits (finite, above 0), without P in its label. */
+    release<L extends Level, V, W>(lv: Labeled<L, V>, query: (v: V) => W, bits: number): LIO<Top, Exclude<L, P>, W>;
+    /** The bits left for a secret. */
+    remaining(secret: Secret): number;
+}
+
+/** The bits an answer with this many possible values reveals (at most). */
+export function bitsFor(outcomes: number): number {
+    return Math.log2(outcomes);
+}
+
+/**
+ * Makes a declassifier for P's data, that releases facts about each
+ * secret until its budget is spent. A release is spent when it runs
+ * (and only if it succeeds).
+ */
+export function budgetedDeclassifier<P extends Principal>(priv: Priv<P>, options: BudgetOptions): BudgetedDeclassifier<P> {
+    const p = priv.principal;
+    const store = options.store ?? memoryBudgetStore();
+    const total = (secret: Secret): number => typeof options.bits === "function" ? options.bits(secret) : options.bits;
+    const leftOf = (secret: Secret): number => total(secret) - (store.get(p, secret) ?? 0);
+    // a copy has the budget of the secrets it was made from (the least of theirs).
+    const remaining = (secret: Secret): number => Math.min(...secretsOf(secret).map(leftOf));
+    return {
+        principal: p,
+        release: <L extends Level, V, W>(lv: Labeled<L, V>, query: (v: V) => W, bits: number = 1): LIO<Top, Exclude<L, P>, W> => {
+            // else a release could spend nothing (or a budget be refilled).
+            if (!isFinite(bits) || bits <= 0) throw new RangeError(`release: ${bits} bits (must be finite, above 0)`);
+            return (ctx) => {
+                const left = remaining(lv);
+                if (bits > left) throw asFailure(new BudgetExhaustedError(p, bits, left), ctx.current, ctx.lattice);
+                const r = declassify(priv, bind(unLabel(lv), (v) => ret(query(v)) as LIO<Top, L, W>))(ctx);
+                secretsOf(lv).forEach(s => store.set(p, s, (store.get(p, s) ?? 0) + bits));
+                return r;
+            };
+        },
+        remaining
+    };
+}
@@ -0,0 +1,109 @@
+import {createCipheriv, createDecipheriv, randomBytes} from "crypto";
+import {Bot, botLevel, isLevel, Level, LUB, lub} from "./lattice";
+import {label, Labeled} from "./label";
+import {assertFlow, RequireFlow} from "./enforcement";
+import {LabelCodec, levelCodec} from "./serialize";
+
+// ENCRYPTION______________________________________________
+
+// encryption is a sanctioned declassification: the ciphertext of
+// secret data is public (it can be stored, or sent over a public
+// channel), as only a key holder can get the secret back.
+// a key is labeled with the principals it protects: a key labeled K
+// may only encrypt data that flows to K (else encrypting would
+// hand the data to whoever may read the key). decryption restores
+// the label the plaintext had, which is authenticated along with
+// the ciphertext (AES-256-GCM, with the label as associated data),
+// so it cannot be lowered in transit. as with deserializeLabeled,
+// the reader says which labels they expect: the type a ciphertext
+// has when read back (e.g. from JSON) says nothing of its label.
+
+/** An AES-256 key (32 bytes), labeled with the principals it protects. */
+export type LabeledKey<K extends Level> = Labeled<K, Buffer>;
+
+/** Encrypted data that was labeled L, and is a V. Safe to make public (e.g. JSON.stringify it). */
+export type Ciphertext<L extends Level, V> = {
+    /** The label of the plaintext, encoded (see LabelCodec). */
+    readonly label: unknown;
+    /** base64 */
+    readonly iv: string;
+    /** base64 */
+    readonly data: string;
+    /** base64 */
+    readonly tag: string;
+    /** type-level only (never set). */
+    readonly plaintext?: [L, V];
+}
+
+/** Thrown when a ciphertext is malformed, tampered with, or encrypted with another key. */
+export class DecryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, DecryptionError.prototype);
+        this.name = "DecryptionError";
+    }
+}
+
+/** Labels a key with k (a fresh random key, if none is given). */
+export function labeledKey<K extends Level>(k: K, key: Buffer = randomBytes(32)): LabeledKey<K> {
+    return label(k, key);
+}
+
+/**
+ * Encrypts a labeled value with a key at least as secret as it.
+ * The value must survive JSON.stringify.
+ * Also checks L <: K at runtime.
+ */
+export function encryptL<K extends Level, L extends Level, V>(
+    key: LabeledKey<K>,
+    lv: Labeled<L, V> & RequireFlow<L, K, "key not secret enough">,
+    codec: LabelCodec = levelCodec
+): Labeled<Bot, Ciphertext<L, V>> {
+    assertFlow(key.getLattice(), lv.getLabel(), key.getLabel(), "encryptL");
+    const l = codec.encode(lv.getLabel());
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key.unsafeGetValue(), iv);
+    cipher.setAAD(Buffer.from(JSON.stringify(l) ?? "null"));
+    const data = Buffer.concat([cipher.update(JSON.stringify(lv.unsafeGetValue()) ?? "null", "utf8"), cipher.final()]);
+    const ct: Ciphertext<L, V> = {
+        label: l,
+        iv: iv.toString("base64"),
+        data: data.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64")
+    };
+    return label(botLevel, ct);
+}
+
+/**
+ * Decrypts a ciphertext: the value gets back the label it had
+ * (joined with the label of the ciphertext).
+ * isLabel says which labels are expected (see labelBelow and labelOneOf):
+ * a ciphertext's type is not to be trusted (e.g. one read with JSON.parse).
+ * Throws a DecryptionError if the key does not fit, the ciphertext was tampered with,
+ * or its label is not expected.
+ * Also checks L <: K at runtime.
+ */
+export function decryptL<K extends Level, C extends Level, L extends Level, V>(
+    key: LabeledKey<K>,
+    lct: Labeled<C, Ciphertext<Level, V>>,
+    isLabel: ((l: Level) => l is L) & RequireFlow<L, K, "key not secret enough">,
+    codec: LabelCodec = levelCodec
+): Labeled<LUB<C, L>, V> {
+    const ct = lct.unsafeGetValue();
+    const l = codec.decode(ct.label);
+    if (l === undefined || !isLevel(l)) throw new DecryptionError("decryptL: malformed label");
+    let plaintext: string;
+    try {
+        const decipher = createDecipheriv("aes-256-gcm", key.unsafeGetValue(), Buffer.from(ct.iv, "base64"));
+        decipher.setAAD(Buffer.from(JSON.stringify(ct.label) ?? "null"));
+        decipher.setAuthTag(Buffer.from(ct.tag, "base64"));
+        plaintext = Buffer.concat([decipher.update(Buffer.from(ct.data, "base64")), decipher.final()]).toString("utf8");
+    } catch (e) {
+        throw new DecryptionError("decryptL: wrong key, or tampered ciphertext");
+    }
+    // the label is authentic now (a tampered one failed above).
+    assertFlow(key.getLattice(), l, key.getLabel(), "decryptL");
+    if (!isLabel(l)) throw new DecryptionError(`decryptL: unexpected label ${JSON.stringify(ct.label)}`);
+    return label(lub(lct.getLabel(), l), JSON.parse(plaintext) as V);
+}
@@ -0,0 +1,338 @@
+import {EnforcementMode, Principal} from "./lattice";
+import {Invariant} from "../misc/subtyping";
+import {FlowViolation, FlowViolationError} from "./enforcement";
+import {Reader, Writer} from "./monad-io";
+import {RunOptions} from "./monad";
+
+// DC_LABELS_______________________________________________
+
+// Disjunction Category labels, see
+// "Disjunction Category Labels"
+// by Deian Stefan, Alejandro Russo, David Mazières and John C. Mitchell.
+// (https://www.scs.stanford.edu/~deian/pubs/stefan:2011:dclabels.pdf )
+
+// a DC label is a pair <S, I> of formulas over principals.
+//  - S (secrecy): whose consent is needed to read the data.
+//  - I (integrity): who vouched for the data.
+// a formula is a conjunction of clauses, a clause is a disjunction
+// of principals. we model a clause as a union of principals, and
+// a formula as a tuple of clauses:
+//   ["Alice" | "Bob", "Carol"]  ≈  (Alice ∨ Bob) ∧ Carol
+// the empty tuple [] is True, and [never] (the empty clause) is False.
+//
+// <S1, I1> ⊑ <S2, I2>  iff  S2 ⟹ S1  and  I1 ⟹ I2.
+// integrity flows "backwards", so unlike levels, DC label flows
+// cannot be modeled as subtyping. instead, DC labels are invariant,
+// and we compute flows with conditional types.
+
+/** A clause: a disjunction of principals. */
+export type Clause = Principal;
+
+/** A formula: a conjunction of clauses. */
+export type Formula = readonly Clause[];
+
+/** The formula True (no clauses). */
+export type True = [];
+
+/** The formula False (the empty clause). */
+export type False = [never];
+
+/**
+ * A DC label with secrecy S and integrity I.
+ * At runtime, clauses are arrays of principals.
+ */
+export type DCLabel<S extends Formula, I extends Formula> = {
+    readonly secrecy: ReadonlyArray<ReadonlyArray<Principal>>;
+    readonly integrity: ReadonlyArray<ReadonlyArray<Principal>>;
+    /** type-level only (never set); makes the label invariant in S and I. */
+    readonly formulas?: Invariant<[S, I]>;
+}
+
+/** Any DC label (every DCLabel<S, I> is one). */
+export type AnyDC = {
+    readonly secrecy: ReadonlyArray<ReadonlyArray<Principal>>;
+    readonly integrity: ReadonlyArray<ReadonlyArray<Principal>>;
+    readonly formulas?: unknown;
+}
+
+/** The secrecy formula of a DC label (type-level). */
+export type SecrecyOf<L extends AnyDC> = L extends DCLabel<infer S, infer _> ? S : never;
+
+/** The integrity formula of a DC label (type-level). */
+export type IntegrityOf<L extends AnyDC> = L extends DCLabel<infer _, infer I> ? I : never;
+
+/** Bottom DC label: public, fully trusted. */
+export type DCBot = DCLabel<True, False>;
+
+/** Top DC label: readable by no one, trusted by no one. */
+export type DCTop = DCLabel<False, True>;
+
+// TYPE_LEVEL_OPERATIONS___________________________________
+
+// clause C ⟹ clause D iff C ⊆ D; for unions, that's subtyping.
+// formula F ⟹ clause D iff some clause of F implies D.
+type ImpliesClause<F extends Formula, D> =
+    true extends { [K in keyof F]: [F[K]] extends [D] ? true : false }[number] ? true : false;
+
+/** Type-level implication of formulas: F ⟹ G iff F implies every clause of G. */
+export type Implies<F extends Formula, G extends Formula> =
+    false extends { [K in keyof G]: ImpliesClause<F, G[K]> }[number] ? false : true;
+
+/** Type-level conjunction of formulas. */
+export type And<F extends Formula, G extends Formula> = [...F, ...G];
+
+type OrClause<C extends Clause, G extends Formula> =
+    G extends readonly [infer D extends Clause, ...infer Rest extends Formula] ? [C | D, ...OrClause<C, Rest>] : [];
+
+/** Type-level disjunction of formulas (distributes clauses). */
+export type Or<F extends Formula, G extends Formula> =
+    F extends readonly [infer C extends Clause, ...infer Rest extends Formula] ? [...OrClause<C, G>, ...Or<Rest, G>] : [];
+
+/** Type-level flow check: true iff L1 ⊑ L2. */
+export type CanFlowTo<L1 extends AnyDC, L2 extends AnyDC> =
+    Implies<SecrecyOf<L2>, SecrecyOf<L1>> extends true
+        ? Implies<IntegrityOf<L1>, IntegrityOf<L2>> extends true ? true : false
+        : false;
+
+/** Type-level least upper bound of DC labels. */
+export type DCLUB<L1 extends AnyDC, L2 extends AnyDC> =
+    DCLabel<And<SecrecyOf<L1>, SecrecyOf<L2>>, Or<IntegrityOf<L1>, IntegrityOf<L2>>>;
+
+/** Type-level greatest lower bound of DC labels. */
+export type DCGLB<L1 extends AnyDC, L2 extends AnyDC> =
+    DCLabel<Or<SecrecyOf<L1>, SecrecyOf<L2>>, And<IntegrityOf<L1>, IntegrityOf<L2>>>;
+
+/**
+ * Resolves to unknown if L1 ⊑ L2, and to an unsatisfiable type otherwise.
+ * Intersect a parameter type with this to reject disallowed flows.
+ */
+export type RequireDCFlow<L1 extends AnyDC, L2 extends AnyDC> =
+    CanFlowTo<L1, L2> extends true ? unknown : FlowViolation<"cannot flow", L1, L2>;
+
+// VALUE_LEVEL_OPERATIONS__________________________________
+
+type ClausesOf<F extends readonly (readonly Principal[])[]> = { -readonly [K in keyof F]: F[K][number] };
+
+function normalize(f: ReadonlyArray<ReadonlyArray<Principal>>): ReadonlyArray<ReadonlyArray<Principal>> {
+    const clauses = f.map(c => c.filter((p, i) => c.indexOf(p) === i).sort());
+    const keys = clauses.map(c => JSON.stringify(c));
+    return clauses.filter((c, i) => keys.indexOf(keys[i]) === i);
+}
+
+/**
+ * Builds a DC label from secrecy and integrity formulas,
+ * each given as an array of clauses (arrays of principals).
+ * e.g. dc([["Alice", "Bob"], ["Carol"]], [["Alice"]]) is <(Alice ∨ Bob) ∧ Carol, Alice>.
+ */
+export function dc<
+    const S extends readonly (readonly Principal[])[],
+    const I extends readonly (readonly Principal[])[]
+>(secrecy: S, integrity: I): DCLabel<ClausesOf<S>, ClausesOf<I>> {
+    return {secrecy: normalize(secrecy), integrity: normalize(integrity)};
+}
+
+/** Bottom DC label (value-level). */
+export const dcBot: DCBot = dc([], [[]]) as DCBot;
+
+/** Top DC label (value-level). */
+export const dcTop: DCTop = dc([[]], []) as DCTop;
+
+function impliesClause(f: ReadonlyArray<ReadonlyArray<Principal>>, d: ReadonlyArray<Principal>): boolean {
+    return f.some(c => c.every(p => d.indexOf(p) >= 0));
+}
+
+/** Value-level implication of formulas. */
+export function implies(f: ReadonlyArray<ReadonlyArray<Principal>>, g: ReadonlyArray<ReadonlyArray<Principal>>): boolean {
+    return g.every(d => impliesClause(f, d));
+}
+
+function or(f: ReadonlyArray<ReadonlyArray<Principal>>, g: ReadonlyArray<ReadonlyArray<Principal>>): ReadonlyArray<ReadonlyArray<Principal>> {
+    const r: Principal[][] = [];
+    f.forEach(c => g.forEach(d => r.push(c.concat(d))));
+    return normalize(r);
+}
+
+/** Value-level flow check: true iff l1 ⊑ l2. */
+export function canFlowTo(l1: AnyDC, l2: AnyDC): boolean {
+    return implies(l2.secrecy, l1.secrecy) && implies(l1.integrity, l2.integrity);
+}
+
+/** Value-level least upper bound of DC labels. */
+export function dcLub<L1 extends AnyDC, L2 extends AnyDC>(l1: L1, l2: L2): DCLUB<L1, L2> {
+    return {secrecy: normalize(l1.secrecy.concat(l2.secrecy)), integrity: or(l1.integrity, l2.integrity)};
+}
+
+/** Value-level greatest lower bound of DC labels. */
+export function dcGlb<L1 extends AnyDC, L2 extends AnyDC>(l1: L1, l2: L2): DCGLB<L1, L2> {
+    return {secrecy: or(l1.secrecy, l2.secrecy), integrity: normalize(l1.integrity.concat(l2.integrity))};
+}
+
+function showFormula(f: ReadonlyArray<ReadonlyArray<Principal>>): string {
+    if (f.length === 0) return "True";
+    return f.map(c => c.length === 0 ? "False" : c.length === 1 ? c[0] : `(${c.join(" ∨ ")})`).join(" ∧ ");
+}
+
+/** Human-readable rendering of a DC label. */
+export function showDC(l: AnyDC): string {
+    return `<${showFormula(l.secrecy)}, ${showFormula(l.integrity)}>`;
+}
+
+/** Whether a value is a DC label (rather than a level). */
+export function isDC(l: unknown): l is AnyDC {
+    return typeof l === "object" && l !== null
+        && Array.isArray((l as AnyDC).secrecy) && Array.isArray((l as AnyDC).integrity);
+}
+
+/** In dynamic mode (of ctx), checks that l1 ⊑ l2, and throws a FlowViolationError if not. */
+export function checkDCFlow(ctx: { readonly mode: EnforcementMode }, l1: AnyDC, l2: AnyDC, operation: string): void {
+    if (ctx.mode !== "dynamic") return;
+    if (!canFlowTo(l1, l2)) {
+        throw new FlowViolationError<AnyDC>(l1, l2, operation, showDC);
+    }
+}
+
+// DC_LABELED_VALUES_&_MONAD_______________________________
+
+// the same API as label.ts, monad.ts and monad-io.ts,
+// but over DC labels. since flows are not subtyping here,
+// there is no weakening by subtyping either: bind and output
+// compute and check the levels explicitly.
+// like LIO, DCLIO is a deferred computation, run by dcRunLIO.
+// label, unLabel, bind, src, snk, input and output have overloads
+// for DC labels, which end up here (they tell DC labels from levels
+// at runtime, see isDC). ret and runLIO have no label to go by, so
+// DC computations use dcRet and dcRunLIO.
+
+/** A DC-labeled value (closure-encapsulated, like Labeled). */
+export type DCLabeled<L extends AnyDC, V> = {
+    /** Get the label (safe operation) */
+    getLabel(): L;
+
+    /**
+     * WARNING: Unsafe operation that extracts the raw value.
+     * This bypasses information flow control.
+     */
+    unsafeGetValue(): V;
+
+    /** type-level only (never set); tells a DCLabeled from a Labeled (e.g. one labeled Bot). */
+    readonly getLattice?: undefined;
+}
+
+/** What a DCLIO computation runs in (see LIOContext). */
+export type DCContext = {
+    /** The lub of the data-labels read so far. */
+    readonly current: AnyDC;
+    /** Whether flows are also checked at runtime. */
+    readonly mode: EnforcementMode;
+}
+
+/** The result of running a DCLIO computation: PC-label, data-label and value. */
+export type DCLIOResult<PC extends AnyDC, L extends AnyDC, V> = [PC, L, V];
+
+/** LIO over DC labels. */
+export type DCLIO<PC extends AnyDC, L extends AnyDC, V> = (ctx: DCContext) => DCLIOResult<PC, L, V>;
+
+/** DC-labeled async source. */
+export type DCSrc<L extends AnyDC, I> = [L, Reader<I>];
+
+/** DC-labeled async sink. */
+export type DCSnk<L extends AnyDC, O> = [L, Writer<O>];
+
+/** Whether a labeled value has a DC label (see label). */
+export function isDCLabeled(lv: { getLabel(): unknown }): lv is DCLabeled<AnyDC, unknown> {
+    return isDC(lv.getLabel());
+}
+
+/** Whether a source or sink has a DC label (see src and snk). */
+export function hasDCLabel(t: readonly unknown[]): t is readonly [AnyDC, ...unknown[]] {
+    return isDC(t[0]);
+}
+
+/** Whether a computation runs in a DC context (see bind). */
+export function isDCContext(ctx: { readonly current: unknown }): ctx is DCContext {
+    return isDC(ctx.current);
+}
+
+/** Attaches a DC label to a value. */
+export function dcLabel<L extends AnyDC, V>(l: L, v: V): DCLabeled<L, V> {
+    const privateLabel: L = l;
+    const privateValue: V = v;
+
+    return {
+        getLabel(): L {
+            return privateLabel;
+        },
+
+        unsafeGetValue(): V {
+            return privateValue;
+        }
+    };
+}
+
+/** Unlabel a DC-labeled value. */
+export function dcUnLabel<L extends AnyDC, V>(lv: DCLabeled<L, V>): DCLIO<DCTop, L, V> {
+    return () => [dcTop, lv.getLabel(), lv.unsafeGetValue()];
+}
+
+/** Return a value. */
+export function dcRet<V>(v: V): DCLIO<DCTop, DCBot, V> {
+    return () => [dcTop, dcBot, v];
+}
+
+/**
+ * The bind statement over DC labels.
+ * Requires (at compile-time, and in dynamic mode also at runtime)
+ * that the data-label of m flows to the PC-label of f's computation,
+ * in both secrecy and integrity.
+ */
+export function dcBind<
+    PC1 extends AnyDC, L1 extends AnyDC, V,
+    PC2 extends AnyDC, L2 extends AnyDC, W
+>(
+    m: DCLIO<PC1, L1, V>,
+    f: (v: V) => DCLIO<PC2, L2, W> & RequireDCFlow<L1, PC2>
+): DCLIO<DCGLB<PC1, PC2>, DCLUB<L1, L2>, W> {
+    return (ctx) => {
+        const [pc1, l1, v] = m(ctx);
+        const [pc2, l2, w] = f(v)({...ctx, current: dcLub(ctx.current, l1)});
+        checkDCFlow(ctx, l1, pc2, "dcBind");
+        return [dcGlb(pc1, pc2), dcLub(l1, l2), w];
+    };
+}
+
+/** Create a DC-labeled source. */
+export function dcSrc<L extends AnyDC, I>(l: L, r: Reader<I>): DCSrc<L, I> {
+    return [l, r];
+}
+
+/** Create a DC-labeled sink. */
+export function dcSnk<L extends AnyDC, O>(l: L, w: Writer<O>): DCSnk<L, O> {
+    return [l, w];
+}
+
+/** Read from a DC-labeled source. */
+export function dcInput<L extends AnyDC, I>([l, r]: DCSrc<L, I>): DCLIO<DCTop, DCBot, Promise<DCLabeled<L, I>>> {
+    return (ctx) => dcRet(r().then(i => dcLabel(l, i)))(ctx);
+}
+
+/**
+ * Write to a DC-labeled sink.
+ * Enforces that the label of the data flows to the label of the sink,
+ * in both secrecy and integrity (so, e.g., data no one vouched for
+ * cannot reach a sink that requires integrity).
+ */
+export function dcOutput<Lsink extends AnyDC, O>(
+    [ls, w]: DCSnk<Lsink, O>
+): <Ldata extends AnyDC>(lv: DCLabeled<Ldata, O> & RequireDCFlow<Ldata, Lsink>) => DCLIO<Lsink, DCBot, Promise<null>> {
+    return (lv) => (ctx) => {
+        checkDCFlow(ctx, dcLub(ctx.current, lv.getLabel()), ls, "dcOutput");
+        const writePromise = w(lv.unsafeGetValue()).then(() => null);
+        return [ls, dcBot, writePromise];
+    };
+}
+
+/** Runs a DC computation; the value comes out labeled with its data-label. */
+export function dcRunLIO<PC extends AnyDC, L extends AnyDC, V>(m: DCLIO<PC, L, V>, options: RunOptions = {}): DCLabeled<L, V> {
+    const [pc, l, v] = m({current: dcBot, mode: options.mode ?? "static"});
+    return dcLabel(l, v);
+}
@@ -0,0 +1,126 @@
+import {AnyLattice, EnforcementMode, Level, powerset} from "./lattice";
+
+// RUNTIME_ENFORCEMENT_____________________________________
+
+// in dynamic mode (see lattice.ts), the monad checks flows at
+// runtime, in the same places the type checker checks them
+// statically. a failed check throws a FlowViolationError.
+// the mode is that of the computation's context; operations
+// outside the monad (e.g. upLabel) have no context, and always check.
+
+/**
+ * Thrown (in dynamic mode) when data at level `source` would flow to level `sink`.
+ * `show` renders the labels (e.g. the show of their lattice, or showDC).
+ */
+export class FlowViolationError<L = Level> extends Error {
+    readonly source: L;
+    readonly sink: L;
+    readonly operation: string;
+
+    constructor(source: L, sink: L, operation: string, show: (l: L) => string) {
+        super(`${operation}: cannot flow ${show(source)} to ${show(sink)}`);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, FlowViolationError.prototype);
+        this.name = "FlowViolationError";
+        this.source = source;
+        this.sink = sink;
+        this.operation = operation;
+    }
+}
+
+// the type-level counterpart: where a flow is not allowed, a
+// parameter's type is intersected with a FlowViolation, which no
+// argument has. the type checker then names it in its error, e.g.
+//   ... is not assignable to ... FlowViolation<"cannot flow", "Amy" | "Bob", "Bob">
+// (rather than a long story about Contravariant<...> and tuple positions.)
+
+/** A type error: data at Source cannot flow to Sink. No value has this type. */
+export interface FlowViolation<Message extends string, Source, Sink> {
+    readonly "flow violation": [Message, Source, Sink];
+}
+
+/**
+ * Resolves to unknown if Source <: Sink, and to a FlowViolation otherwise.
+ * Intersect a parameter type with this to reject disallowed flows.
+ * (anything flows to Top; said first, so that it holds for generic Source too.)
+ */
+export type RequireFlow<Source extends Level, Sink extends Level, Message extends string = "cannot flow"> =
+    string extends Sink ? unknown : [Source] extends [Sink] ? unknown : FlowViolation<Message, Source, Sink>;
+
+/**
+ * Checks that `source` can flow to `sink` in a lattice,
+ * and throws a FlowViolationError if it cannot.
+ */
+export function assertFlow(lattice: AnyLattice, source: Level, sink: Level, operation: string): void {
+    if (!lattice.isLevel(source) || !lattice.isLevel(sink) || !lattice.leq(source, sink)) {
+        throw new FlowViolationError(source, sink, operation, (l) => lattice.isLevel(l) ? lattice.show(l) : String(l));
+    }
+}
+
+/**
+ * In dynamic mode, checks that `source` can flow to `sink`
+ * in the context's lattice (see assertFlow).
+ * In static mode, this does nothing (the type checker did the job).
+ */
+export function checkFlow(
+    ctx: { readonly mode: EnforcementMode, readonly lattice: AnyLattice },
+    source: Level,
+    sink: Level,
+    operation: string
+): void {
+    if (ctx.mode === "dynamic") assertFlow(ctx.lattice, source, sink, operation);
+}
+
+// LABELED_FAILURES________________________________________
+
+// whether a computation fails (and with what) may depend on the
+// data it has read: an error message may even quote it. so a
+// failure is labeled with the current label where it happened,
+// and what was thrown is kept out of its message and stack, and
+// can only be read back labeled (see catchLIO in monad-exception.ts).
+// flow violations are not labeled failures: they are never caught.
+
+const thrown = new WeakMap<object, unknown>();
+
+/**
+ * A failure inside an LIO computation, labeled L.
+ * Its message only shows the label, never what was thrown.
+ */
+export class LabeledFailure<L extends Level = Level> extends Error {
+    /** The label of what was thrown (at least the PC). */
+    readonly label: L;
+    /** The current label where it was thrown (the runtime PC). */
+    readonly pc: Level;
+    /** The lattice the labels are in. */
+    readonly lattice: AnyLattice;
+
+    constructor(label: L, pc: Level, value: unknown, lattice: AnyLattice = powerset) {
+        super(`labeled failure at ${lattice.show(label)}`);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, LabeledFailure.prototype);
+        this.name = "LabeledFailure";
+        this.label = label;
+        this.pc = pc;
+        this.lattice = lattice;
+        thrown.set(this, value);
+    }
+
+    /** What was thrown. WARNING: this is unsafe! */
+    unsafeGetValue(): unknown {
+        return thrown.get(this);
+    }
+}
+
+/**
+ * Labels something thrown where the current label is `current`, in a lattice
+ * (a failure that is already labeled is only raised to it).
+ * Flow violations are returned as they are.
+ */
+export function asFailure(e: unknown, current: Level, lattice: AnyLattice): LabeledFailure | FlowViolationError {
+    if (e instanceof FlowViolationError) return e;
+    if (e instanceof LabeledFailure) {
+        return lattice.leq(current, e.label) ? e
+            : new LabeledFailure(lattice.lub(current, e.label), lattice.lub(current, e.pc), e.unsafeGetValue(), lattice);
+    }
+    return new LabeledFailure(current, current, e, lattice);
+}
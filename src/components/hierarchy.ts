@@ -0,0 +1,65 @@
+import {Level, levelOf, Principal} from "./lattice";
+
+// PRINCIPAL_HIERARCHIES___________________________________
+
+// principals are unrelated strings; a hierarchy relates them:
+// a principal acts for the principals it is declared over, and
+// (transitively) for everyone those act for. e.g.
+//   {Admin: ["Employee"], Employee: ["Amy", "Bob"]}
+// says Admin acts for the Employee role, which acts for Amy and Bob
+// (a role, or a group that covers its members).
+// a principal that acts for others may read what they may read, so
+// its level is the set of all principals it acts for (itself included):
+//   level(Admin) = "Admin" | "Employee" | "Amy" | "Bob"
+// Amy's data ("Amy") then flows to Admin (a subset), and flows are
+// checked as before (subtyping statically, sets in dynamic mode).
+// so bind, output, upLabel, downPC, ... take the hierarchy into
+// account, for sinks, PCs and labels made with `level`.
+
+/** Who acts for whom: each principal maps to the principals it acts for. */
+export type Hierarchy = { readonly [principal: string]: readonly Principal[] };
+
+/**
+ * P, and everyone P acts for (transitively), in hierarchy H.
+ * This is P's level. (cycles are cut off.)
+ */
+export type Covered<H extends Hierarchy, P extends Principal, Seen extends Principal = never> =
+    P extends Seen ? never
+        : P | (P extends keyof H ? Covered<H, H[P][number], Seen | P> : never);
+
+/** true if A acts for B in hierarchy H (type-level). */
+export type ActsFor<H extends Hierarchy, A extends Principal, B extends Principal> =
+    [B] extends [Covered<H, A>] ? true : false;
+
+/** A principal hierarchy, at the value-level. */
+export type PrincipalHierarchy<H extends Hierarchy> = {
+    readonly declaration: H;
+    /** The level of some principals: them, and everyone they act for. */
+    level<const Ps extends readonly Principal[]>(...ps: Ps): Covered<H, Ps[number]>;
+    /** Whether a acts for b. */
+    actsFor(a: Principal, b: Principal): boolean;
+    /** Everyone p acts for, p included (sorted). */
+    covered(p: Principal): readonly Principal[];
+}
+
+/** Declares a principal hierarchy. */
+export function hierarchy<const H extends Hierarchy>(declaration: H): PrincipalHierarchy<H> {
+    const covered = (p: Principal): readonly Principal[] => {
+        const seen: Principal[] = [];
+        const visit = (q: Principal): void => {
+            if (seen.indexOf(q) >= 0) return;
+            seen.push(q);
+            const below = Object.prototype.hasOwnProperty.call(declaration, q) ? declaration[q] : [];
+            below.forEach(visit);
+        };
+        visit(p);
+        return seen.sort();
+    };
+    return {
+        declaration,
+        level: <const Ps extends readonly Principal[]>(...ps: Ps) =>
+            levelOf<Level>(ps.reduce<Principal[]>((acc, p) => acc.concat(covered(p)), [])) as Covered<H, Ps[number]>,
+        actsFor: (a, b) => covered(a).indexOf(b) >= 0,
+        covered
+    };
+}
@@ -0,0 +1,173 @@
+import {appendFile, FileHandle, open, readFile, writeFile} from "fs/promises";
+import {isAbsolute, posix, resolve} from "path";
+import {StringDecoder} from "string_decoder";
+import {Level} from "./lattice";
+import {snk, Snk, src, Src} from "./monad-io";
+import {Intersect} from "../misc/subtyping";
+
+// FILE_SOURCES_&_SINKS____________________________________
+
+// labeled sources and sinks for files, built on fs/promises.
+// (as with any source or sink, nothing is read or written
+// until a computation that uses them runs.)
+
+/** Source that reads a whole file (as text). */
+export function fileSrc<L extends Level>(l: L, path: string, encoding: BufferEncoding = "utf8"): Src<L, string> {
+    return src(l, () => readFile(path, {encoding}));
+}
+
+/** Options for file sinks. */
+export type FileSnkOptions = {
+    /** Append to the file instead of overwriting it (default: false). */
+    readonly append?: boolean;
+    readonly encoding?: BufferEncoding;
+}
+
+/** Sink that writes (or appends) text to a file. */
+export function fileSnk<L extends Level>(l: L, path: string, options: FileSnkOptions = {}): Snk<L, string> {
+    const encoding = options.encoding ?? "utf8";
+    return snk(l, (s: string) => options.append
+        ? appendFile(path, s, {encoding})
+        : writeFile(path, s, {encoding}));
+}
+
+/**
+ * Source that reads a file line by line: each read yields the next line
+ * (without the line terminator), and undefined once the file is exhausted.
+ * The file is opened on the first read, and closed at its end; the read
+ * after that opens it again (so each run of a computation that reads to
+ * the end gets the whole file). A read that fails also starts over.
+ */
+export function lineSrc<L extends Level>(l: L, path: string, encoding: BufferEncoding = "utf8"): Src<L, string | undefined> {
+    const chunkSize = 64 * 1024;
+    // where we are in the file: made by the first read, dropped at the end.
+    type Cursor = { readonly handle: FileHandle; readonly decoder: StringDecoder; pending: string; done: boolean };
+    let cursor: Promise<Cursor> | undefined;
+    // reads are chained, so lines come out in order even if reads overlap.
+    let last: Promise<string | undefined> = Promise.resolve(undefined);
+
+    const line = async (c: Cursor): Promise<string | undefined> => {
+        while (!c.done && c.pending.indexOf("\n") < 0) {
+            const buffer = Buffer.alloc(chunkSize);
+            const {bytesRead} = await c.handle.read(buffer, 0, chunkSize, null);
+            if (bytesRead === 0) {
+                c.done = true;
+                c.pending += c.decoder.end();
+            } else {
+                // the decoder keeps a character split across chunks for the next one.
+                c.pending += c.decoder.write(buffer.subarray(0, bytesRead));
+            }
+        }
+        const i = c.pending.indexOf("\n");
+        if (i >= 0) {
+            const s = c.pending.slice(0, i);
+            c.pending = c.pending.slice(i + 1);
+            return s.replace(/\r$/, "");
+        }
+        if (c.pending.length > 0) {
+            const s = c.pending;
+            c.pending = "";
+            return s;
+        }
+        return undefined;
+    };
+
+    const close = async (c: Promise<Cursor>): Promise<void> => {
+        if (cursor === c) cursor = undefined;
+        await (await c).handle.close();
+    };
+
+    const next = async (): Promise<string | undefined> => {
+        const c = cursor ?? (cursor = open(path, "r").then(handle =>
+            ({handle, decoder: new StringDecoder(encoding), pending: "", done: false})));
+        let s: string | undefined;
+        try {
+            s = await line(await c);
+        } catch (e) {
+            await close(c).catch(() => undefined);
+            throw e;
+        }
+        if (s === undefined) await close(c);
+        return s;
+    };
+
+    return src(l, () => last = last.then(next, next));
+}
+
+// DIRECTORY_SCOPED_FACTORIES______________________________
+
+// a labeled directory assigns labels to the files under it by
+// path prefix, e.g. {"alice/": "Alice", "bob/": "Bob"}: a path gets
+// the label of its longest matching prefix (else the fallback).
+// for a path literal, the type-level picks that same label; for a
+// path of type string, we only know it is one of the labels. a
+// source may then be labeled with any of them (their lub), a sink
+// only with all of them (their glb).
+
+/** Path-prefix rules: each prefix (relative to the root) maps to a label. */
+export type PathRules = { readonly [prefix: string]: Level };
+
+// the prefixes of rules that P has.
+type MatchingPrefixes<Rules extends PathRules, P extends string> =
+    { [K in keyof Rules & string]: P extends `${K}${string}` ? K : never }[keyof Rules & string];
+
+// the prefixes in M that are longer than K (and start with it).
+type LongerThan<M extends string, K extends string> = M extends K ? never : M extends `${K}${string}` ? M : never;
+
+// the longest prefix in M (those of a path all start each other).
+type Longest<M extends string> = { [K in M]: [LongerThan<M, K>] extends [never] ? K : never }[M];
+
+// the labels P may have, each wrapped in a tuple.
+type Labels<Rules extends PathRules, Fallback extends Level, P extends string> =
+    string extends P ? { [K in keyof Rules & string]: [Rules[K]] }[keyof Rules & string] | [Fallback]
+        : [MatchingPrefixes<Rules, P>] extends [never] ? [Fallback] : [Rules[Longest<MatchingPrefixes<Rules, P>>]];
+
+/** The label of a source at path P (the lub of the labels P may have). */
+export type SrcLabel<Rules extends PathRules, Fallback extends Level, P extends string> =
+    Labels<Rules, Fallback, P>[0];
+
+/** The label of a sink at path P (the glb of the labels P may have). */
+export type SnkLabel<Rules extends PathRules, Fallback extends Level, P extends string> =
+    Intersect<Labels<Rules, Fallback, P>> extends [infer L extends Level] ? L : never;
+
+/** Sources and sinks for the files under a directory, labeled by path rules. */
+export type LabeledDir<Rules extends PathRules, Fallback extends Level> = {
+    /** The label of a path (longest matching prefix, else the fallback). */
+    labelOf<P extends string>(path: P): SrcLabel<Rules, Fallback, P>;
+    fileSrc<P extends string>(path: P, encoding?: BufferEncoding): Src<SrcLabel<Rules, Fallback, P>, string>;
+    lineSrc<P extends string>(path: P, encoding?: BufferEncoding): Src<SrcLabel<Rules, Fallback, P>, string | undefined>;
+    fileSnk<P extends string>(path: P, options?: FileSnkOptions): Snk<SnkLabel<Rules, Fallback, P>, string>;
+}
+
+/**
+ * Makes sources and sinks for the files under root, labeled by rules.
+ * Paths are relative to root, and must be normalized
+ * (no "..", "." or empty segments), so that the label of a path is
+ * the label of the file it names.
+ */
+export function labeledDir<const Rules extends PathRules, Fallback extends Level>(
+    root: string,
+    rules: Rules,
+    fallback: Fallback
+): LabeledDir<Rules, Fallback> {
+    const prefixes = Object.keys(rules).sort((a, b) => b.length - a.length);
+
+    const check = (path: string): string => {
+        if (isAbsolute(path) || posix.normalize(path) !== path || path.split("/").indexOf("..") >= 0) {
+            throw new Error(`labeledDir: not a normalized relative path: ${JSON.stringify(path)}`);
+        }
+        return resolve(root, path);
+    };
+    // the label of the longest matching prefix (as Labels does).
+    const labelAt = (path: string): Level => {
+        const prefix = prefixes.filter(p => path.indexOf(p) === 0)[0];
+        return prefix === undefined ? fallback : rules[prefix];
+    };
+
+    return {
+        labelOf: (path) => labelAt(path) as SrcLabel<Rules, Fallback, typeof path>,
+        fileSrc: (path, encoding) => fileSrc(labelAt(path) as SrcLabel<Rules, Fallback, typeof path>, check(path), encoding),
+        lineSrc: (path, encoding) => lineSrc(labelAt(path) as SrcLabel<Rules, Fallback, typeof path>, check(path), encoding),
+        fileSnk: (path, options) => fileSnk(labelAt(path) as SnkLabel<Rules, Fallback, typeof path>, check(path), options)
+    };
+}
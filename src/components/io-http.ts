@@ -0,0 +1,128 @@
+import {createServer, IncomingHttpHeaders, IncomingMessage, RequestListener, Server, ServerResponse} from "http";
+import {Bot, Level, Principal} from "./lattice";
+import {label, Labeled} from "./label";
+import {LIO, RunOptions, unsafe_runLIO} from "./monad";
+import {snk, Snk, src, Src} from "./monad-io";
+
+// HTTP____________________________________________________
+
+// a labeled adapter around node:http.
+// each request is authenticated to a principal, and everything the
+// client sent (body, headers, query parameters) is labeled with it.
+// the response is a sink labeled with the same principal.
+// handlers are generic in that principal, so a handler cannot
+// write anyone else's data to the response.
+
+/** What a client sent, labeled with the requester L. */
+export type LabeledRequest<L extends Level> = {
+    /** The requester (also the label of everything below). */
+    readonly principal: L;
+    /** The method (unlabeled; needed for routing). */
+    readonly method: string;
+    /** The path, without query string (unlabeled; needed for routing). */
+    readonly path: string;
+    /** All headers. */
+    readonly headers: Labeled<L, IncomingHttpHeaders>;
+    /** A header (by lowercase name). */
+    header(name: string): Labeled<L, string | undefined>;
+    /** A query parameter (first occurrence). */
+    query(name: string): Labeled<L, string | undefined>;
+    /** The body, as text (read on first input). */
+    readonly body: Src<L, string>;
+}
+
+/** What a handler writes to the response: a body chunk, or status/headers/body. */
+export type HttpReply = string | {
+    readonly status?: number;
+    readonly headers?: { readonly [name: string]: string };
+    readonly body?: string;
+}
+
+/**
+ * A request handler. Generic in the requester L, so it can only
+ * respond with data that flows to L, whoever the requester is.
+ */
+export type LabeledHandler<P extends Principal> =
+    <L extends P>(req: LabeledRequest<L>, res: Snk<L, HttpReply>) => LIO<Bot, Level, unknown>;
+
+/** Maps a request to its principal, or undefined if it is not authenticated. */
+export type Authenticate<P extends Principal> =
+    (req: IncomingMessage) => P | undefined | Promise<P | undefined>;
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (c: Buffer) => chunks.push(c));
+        req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        req.on("error", reject);
+    });
+}
+
+function labeledRequest<L extends Principal>(l: L, req: IncomingMessage): LabeledRequest<L> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    let body: Promise<string> | undefined;
+    return {
+        principal: l,
+        method: req.method ?? "GET",
+        path: url.pathname,
+        headers: label(l, req.headers),
+        header: (name) => {
+            const h = req.headers[name.toLowerCase()];
+            return label(l, Array.isArray(h) ? h.join(", ") : h);
+        },
+        query: (name) => label(l, url.searchParams.get(name) ?? undefined),
+        body: src(l, () => body === undefined ? body = readBody(req) : body)
+    };
+}
+
+function responseSnk<L extends Level>(l: L, res: ServerResponse): Snk<L, HttpReply> {
+    return snk(l, async (reply: HttpReply) => {
+        if (typeof reply === "string") {
+            res.write(reply);
+            return;
+        }
+        if (!res.headersSent) {
+            if (reply.status !== undefined) res.statusCode = reply.status;
+            const hs = reply.headers ?? {};
+            Object.keys(hs).forEach(h => res.setHeader(h, hs[h]));
+        }
+        if (reply.body !== undefined) res.write(reply.body);
+    });
+}
+
+/**
+ * A request listener for node:http that authenticates each request,
+ * runs the handler's computation, and ends the response when it is done.
+ * Unauthenticated requests get 401; failures get a 500 without details
+ * (details may depend on labeled data).
+ * The computations are run with the given options (see runLIO).
+ */
+export function labeledRequestListener<P extends Principal>(
+    authenticate: Authenticate<P>,
+    handler: LabeledHandler<P>,
+    options: RunOptions = {}
+): RequestListener {
+    return (req, res) => {
+        Promise.resolve(authenticate(req))
+            .then((principal) => {
+                if (principal === undefined) {
+                    res.statusCode = 401;
+                    return;
+                }
+                return unsafe_runLIO(handler(labeledRequest(principal, req), responseSnk(principal, res)), options);
+            })
+            .catch(() => {
+                if (!res.headersSent) res.statusCode = 500;
+            })
+            .then(() => res.end());
+    };
+}
+
+/** An HTTP server (see labeledRequestListener). Call listen on it to start it. */
+export function labeledServer<P extends Principal>(
+    authenticate: Authenticate<P>,
+    handler: LabeledHandler<P>,
+    options: RunOptions = {}
+): Server {
+    return createServer(labeledRequestListener(authenticate, handler, options));
+}
@@ -0,0 +1,142 @@
+import {Bot, Level} from "./lattice";
+import {Labeled} from "./label";
+import {LIO} from "./monad";
+import {output, snk, Snk, src, Src} from "./monad-io";
+import {RequireFlow} from "./enforcement";
+
+// IN-MEMORY_SOURCES_&_SINKS_______________________________
+
+// sources and sinks that live in memory, for tests.
+// a memory source yields given (or generated) values, one per read;
+// a memory sink records what is written to it. writers only get the
+// value, so to record the label of the data too, write with the
+// sink's own write (an output that knows the label); writes through
+// output(m.snk) are recorded with the sink's label, an upper bound.
+// both can be slowed down and made to fail, to exercise the async
+// paths of input, output and bindAsync.
+
+/** Where a memory source gets its values: an array, a generator, or a function of the read's index. */
+export type MemoryValues<V> = readonly V[] | Iterator<V> | ((i: number) => V);
+
+/** Delays and failures, by the index of the read or write. */
+export type MemoryFaults = {
+    /** Milliseconds to wait before the i-th read or write completes (default: none). */
+    readonly delay?: number | ((i: number) => number);
+    /** The error the i-th read or write fails with, if any. */
+    readonly fail?: (i: number) => Error | undefined;
+}
+
+function faulty<T>(faults: MemoryFaults, i: number, f: () => T): Promise<T> {
+    const ms = typeof faults.delay === "function" ? faults.delay(i) : faults.delay ?? 0;
+    return new Promise<T>((resolve, reject) => {
+        const go = (): void => {
+            const e = faults.fail === undefined ? undefined : faults.fail(i);
+            if (e !== undefined) {
+                reject(e);
+                return;
+            }
+            try {
+                resolve(f());
+            } catch (e) {
+                reject(e);
+            }
+        };
+        if (ms > 0) setTimeout(go, ms);
+        else go();
+    });
+}
+
+/** Source that yields f(0), f(1), ..., one per read. */
+export function memorySrc<L extends Level, V>(l: L, f: (i: number) => V, faults?: MemoryFaults): Src<L, V>;
+/** Source that yields values, one per read (and undefined once they are exhausted). */
+export function memorySrc<L extends Level, V>(l: L, values: readonly V[] | Iterator<V>, faults?: MemoryFaults): Src<L, V | undefined>;
+export function memorySrc<L extends Level, V>(
+    l: L,
+    values: MemoryValues<V>,
+    faults: MemoryFaults = {}
+): Src<L, V | undefined> {
+    const next = (n: number): V | undefined => {
+        if (typeof values === "function") return values(n);
+        if (Array.isArray(values)) return (values as readonly V[])[n];
+        const r = (values as Iterator<V>).next();
+        return r.done ? undefined : r.value;
+    };
+    let reads = 0;
+    // reads complete in order, as with a real stream.
+    let last: Promise<unknown> = Promise.resolve();
+    return src(l, () => {
+        const n = reads++;
+        const p = last.then(() => faulty(faults, n, () => next(n)));
+        last = p.then(undefined, () => undefined);
+        return p;
+    });
+}
+
+/** A write to a memory sink. */
+export type WriteRecord<O> = {
+    readonly value: O;
+    /** The label of the data written (or the sink's, if written with output, not write). */
+    readonly label: Level;
+    /** When the write happened (Date.now()). */
+    readonly timestamp: number;
+    /** Its position among the writes to all memory sinks. */
+    readonly order: number;
+}
+
+/** A sink that records what is written to it. */
+export type MemorySnk<L extends Level, O> = {
+    readonly snk: Snk<L, O>;
+    /** output to snk, recording the label of the data written. */
+    write<Ldata extends Level>(lv: Labeled<Ldata, O> & RequireFlow<Ldata, L>): LIO<L, Bot, Promise<null>>;
+    /** The writes so far, oldest first. */
+    readonly writes: readonly WriteRecord<O>[];
+    /** The values written so far. */
+    values(): O[];
+    /** Throws unless exactly these values were written (deep equality). */
+    expectWrites(expected: readonly O[]): void;
+    /** Throws unless nothing was written. */
+    expectNoWrites(): void;
+    /** Forgets the writes so far. */
+    clear(): void;
+}
+
+let order = 0;
+
+// deep equality of plain data (arrays, objects, primitives).
+function equal(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const ka = Object.keys(a);
+    const kb = Object.keys(b);
+    return ka.length === kb.length && ka.every(k =>
+        Object.prototype.hasOwnProperty.call(b, k) && equal((a as { [k: string]: unknown })[k], (b as { [k: string]: unknown })[k]));
+}
+
+/** Makes a sink that records what is written to it. */
+export function memorySnk<L extends Level, O = unknown>(l: L, faults: MemoryFaults = {}): MemorySnk<L, O> {
+    const writes: WriteRecord<O>[] = [];
+    let n = 0;
+    const values = (): O[] => writes.map(w => w.value);
+    const recorder = (label: Level) => (value: O) => faulty(faults, n++, () => {
+        writes.push({value, label, timestamp: Date.now(), order: order++});
+    });
+    const s = snk(l, recorder(l));
+    return {
+        snk: s,
+        // a sink of its own per write, whose writer knows the label.
+        write: (lv) => output(snk(l, recorder(lv.getLabel())))(lv),
+        writes,
+        values,
+        expectWrites: (expected) => {
+            if (!equal(values(), expected.slice()))
+                throw new Error(`expected writes ${JSON.stringify(expected)}, got ${JSON.stringify(values())}`);
+        },
+        expectNoWrites: () => {
+            if (writes.length !== 0) throw new Error(`expected no writes, got ${writes.length}`);
+        },
+        clear: () => {
+            writes.length = 0;
+        }
+    };
+}
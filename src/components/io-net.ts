@@ -0,0 +1,233 @@
+import {createServer, Server, Socket} from "net";
+import {Bot, Level, Principal} from "./lattice";
+import {LIO, RunOptions, unsafe_runLIO} from "./monad";
+import {snk, Snk, src, Src} from "./monad-io";
+
+// SOCKETS_________________________________________________
+
+// labeled sources and sinks for TCP (and Unix domain) sockets, on node:net.
+// a socket carries a stream of bytes; a framing cuts it into messages:
+//  - "newline":         utf8 text lines (without the "\n"),
+//  - "length-prefixed": a 4-byte big-endian length, then that many bytes,
+//  - "raw":             whatever chunks the socket delivers.
+// each read from a socket source yields the next message
+// (undefined once the socket has ended). a message longer than
+// maxFrameBytes, or cut off by the end of the socket (for
+// "length-prefixed"; a final unterminated line is still a line),
+// destroys the socket: reads then fail with a FramingError.
+// writes go through output, so the flow check happens before them.
+
+/** How a byte stream is cut into messages. */
+export type Framing = "newline" | "length-prefixed" | "raw";
+
+/** The messages of a framing. */
+export type Frame<F extends Framing> = F extends "newline" ? string : Buffer;
+
+/** The default bound on the size of a message (1 MiB). */
+export const defaultMaxFrameBytes = 1024 * 1024;
+
+/** Thrown by reads from a socket whose byte stream is not a sequence of frames. */
+export class FramingError extends Error {
+    constructor(message: string) {
+        super(message);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, FramingError.prototype);
+        this.name = "FramingError";
+    }
+}
+
+type Waiter<F extends Framing> = [(f: Frame<F> | undefined) => void, (e: Error) => void];
+
+// reads frames off a socket, on demand, in order.
+function frameReader<F extends Framing>(socket: Socket, framing: F, maxFrameBytes: number): () => Promise<Frame<F> | undefined> {
+    let buffer = Buffer.alloc(0);
+    const frames: Frame<F>[] = [];
+    const waiters: Waiter<F>[] = [];
+    let ended = false;
+    let error: Error | undefined;
+
+    const fail = (message: string): void => {
+        buffer = Buffer.alloc(0);
+        socket.destroy(new FramingError(message));
+    };
+    const tooLarge = (n: number): boolean => {
+        if (n > maxFrameBytes) fail(`socket: frame of ${n} bytes exceeds maxFrameBytes (${maxFrameBytes})`);
+        return n > maxFrameBytes;
+    };
+    const parse = (): void => {
+        for (; ;) {
+            if (framing === "raw") {
+                if (buffer.length === 0) return;
+                frames.push(buffer as Frame<F>);
+                buffer = Buffer.alloc(0);
+            } else if (framing === "newline") {
+                const i = buffer.indexOf(10);
+                if (tooLarge(i < 0 ? buffer.length : i)) return;
+                if (i < 0) return;
+                frames.push(buffer.subarray(0, i).toString("utf8").replace(/\r$/, "") as Frame<F>);
+                buffer = buffer.subarray(i + 1);
+            } else {
+                if (buffer.length < 4) return;
+                const n = buffer.readUInt32BE(0);
+                if (tooLarge(n)) return;
+                if (buffer.length < 4 + n) return;
+                frames.push(Buffer.from(buffer.subarray(4, 4 + n)) as Frame<F>);
+                buffer = buffer.subarray(4 + n);
+            }
+        }
+    };
+    const flush = (): void => {
+        while (waiters.length > 0 && (frames.length > 0 || ended || error !== undefined)) {
+            const [resolve, reject] = waiters.shift()!;
+            if (frames.length > 0) resolve(frames.shift());
+            else if (error !== undefined) reject(error);
+            else resolve(undefined);
+        }
+        if (waiters.length === 0) socket.pause();
+    };
+
+    socket.pause();
+    socket.on("data", (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        parse();
+        flush();
+    });
+    socket.on("end", () => {
+        // a final unterminated line is still a line; a final partial frame is not.
+        if (framing === "newline" && buffer.length > 0) {
+            frames.push(buffer.toString("utf8") as Frame<F>);
+            buffer = Buffer.alloc(0);
+        } else if (framing === "length-prefixed" && buffer.length > 0) {
+            return fail(`socket: ended within a frame (${buffer.length} bytes of it)`);
+        }
+        ended = true;
+        flush();
+    });
+    socket.on("error", (e: Error) => {
+        error = e;
+        flush();
+    });
+
+    return () => new Promise<Frame<F> | undefined>((resolve, reject) => {
+        waiters.push([resolve, reject]);
+        flush();
+        if (waiters.length > 0) socket.resume();
+    });
+}
+
+function frame(framing: Framing, m: string | Buffer): Buffer {
+    const b = typeof m === "string" ? Buffer.from(m, "utf8") : m;
+    if (framing === "newline") return Buffer.concat([b, Buffer.from("\n")]);
+    if (framing === "length-prefixed") {
+        const n = Buffer.alloc(4);
+        n.writeUInt32BE(b.length, 0);
+        return Buffer.concat([n, b]);
+    }
+    return b;
+}
+
+// one reader per socket, so that sources on the same socket share it.
+const readers = new WeakMap<Socket, [Framing, () => Promise<Frame<Framing> | undefined>]>();
+
+// the reader of a socket (made on first use).
+function readerOf<F extends Framing>(socket: Socket, framing: F, maxFrameBytes: number): () => Promise<Frame<F> | undefined> {
+    const r = readers.get(socket);
+    if (r === undefined) {
+        const read = frameReader(socket, framing, maxFrameBytes);
+        readers.set(socket, [framing, read]);
+        return read;
+    }
+    if (r[0] !== framing) throw new Error(`socketSrc: socket is already read with framing "${r[0]}"`);
+    // same framing, so the same frames.
+    return r[1] as () => Promise<Frame<F> | undefined>;
+}
+
+/**
+ * Source that reads the messages of a socket.
+ * (a socket has one reader: the framing and maxFrameBytes of its first source apply.)
+ */
+export function socketSrc<L extends Level, F extends Framing = "newline">(
+    l: L,
+    socket: Socket,
+    framing: F = "newline" as F,
+    maxFrameBytes: number = defaultMaxFrameBytes
+): Src<L, Frame<F> | undefined> {
+    return src(l, readerOf(socket, framing, maxFrameBytes));
+}
+
+/** Sink that writes messages to a socket. */
+export function socketSnk<L extends Level>(
+    l: L,
+    socket: Socket,
+    framing: Framing = "newline"
+): Snk<L, string | Buffer> {
+    return snk(l, (m: string | Buffer) => new Promise<void>((resolve, reject) =>
+        socket.write(frame(framing, m), (e) => e ? reject(e) : resolve())));
+}
+
+// CONNECTIONS_____________________________________________
+
+/** A connection, labeled with its peer L. */
+export type LabeledConnection<L extends Level, F extends Framing> = {
+    /** The peer (also the label of the source and sink). */
+    readonly principal: L;
+    readonly src: Src<L, Frame<F> | undefined>;
+    readonly snk: Snk<L, string | Buffer>;
+}
+
+/**
+ * Maps a connection to its principal, or undefined to refuse it.
+ * With a handshake, it also gets the connection's first message.
+ */
+export type LabelConnection<P extends Principal, F extends Framing> =
+    (socket: Socket, handshake: Frame<F> | undefined) => P | undefined | Promise<P | undefined>;
+
+/**
+ * A connection handler. Generic in the peer L, so it can only
+ * write data that flows to L, whoever the peer is.
+ */
+export type ConnectionHandler<P extends Principal, F extends Framing> =
+    <L extends P>(conn: LabeledConnection<L, F>) => LIO<Bot, Level, unknown>;
+
+/** Options of labeledSocketServer. */
+export type SocketServerOptions<F extends Framing> = {
+    readonly framing?: F;
+    /** Pass the first message to the labeling function (default: false). */
+    readonly handshake?: boolean;
+    /** The longest message accepted (default: defaultMaxFrameBytes); longer ones destroy the socket. */
+    readonly maxFrameBytes?: number;
+    /** How to run the handler's computations (see runLIO). */
+    readonly run?: RunOptions;
+}
+
+/** Labels a connection, and wraps its socket in a source and a sink. */
+export async function labelConnection<P extends Principal, F extends Framing = "newline">(
+    socket: Socket,
+    labelOf: LabelConnection<P, F>,
+    options: SocketServerOptions<F> = {}
+): Promise<LabeledConnection<P, F> | undefined> {
+    const framing = options.framing ?? "newline" as F;
+    const maxFrameBytes = options.maxFrameBytes ?? defaultMaxFrameBytes;
+    const read = readerOf(socket, framing, maxFrameBytes);
+    const handshake = options.handshake ? await read() : undefined;
+    const principal = await labelOf(socket, handshake);
+    if (principal === undefined) return undefined;
+    return {principal, src: socketSrc(principal, socket, framing, maxFrameBytes), snk: socketSnk(principal, socket, framing)};
+}
+
+/**
+ * A server that labels each connection, runs the handler's computation
+ * on it, and closes it when the computation is done (or fails).
+ * Call listen on it to start it (on a port, or a Unix socket path).
+ */
+export function labeledSocketServer<P extends Principal, F extends Framing = "newline">(
+    labelOf: LabelConnection<P, F>,
+    handler: ConnectionHandler<P, F>,
+    options: SocketServerOptions<F> = {}
+): Server {
+    return createServer((socket) => {
+        labelConnection(socket, labelOf, options)
+            .then(conn => conn === undefined ? undefined : unsafe_runLIO(handler(conn), options.run))
+            .then(() => socket.end(), () => socket.destroy());
+    });
+}
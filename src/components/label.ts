@@ -1,4 +1,6 @@
-import {Level} from "./lattice";
+import {AnyLattice, ElementOf, Level, powerset, Powerset} from "./lattice";
+import {assertFlow} from "./enforcement";
+import {AnyDC, dcLabel, DCLabeled, isDC} from "./dc-label";
 
 // LABELS__________________________________________________
 
@@ -9,11 +11,15 @@ import {Level} from "./lattice";
  * encapsulation that prevents accidental information flow violations.
  *
  * Values can only be accessed through the explicit API methods.
+ * The label is an element of lattice Lat (by default, the powerset lattice).
  */
-export type Labeled<L extends Level, V> = {
+export type Labeled<L extends Level, V, Lat extends AnyLattice = Powerset> = {
     /** Get the label (safe operation) */
     getLabel(): L;
 
+    /** Get the lattice the label is in (safe operation) */
+    getLattice(): Lat;
+
     /**
      * WARNING: Unsafe operation that extracts the raw value.
      * This bypasses information flow control.
@@ -22,25 +28,108 @@ export type Labeled<L extends Level, V> = {
     unsafeGetValue(): V;
 }
 
+/** Attaches a label to a value (see labelIn). */
+export function label<L extends Level, V>(l: L, v: V): Labeled<L, V>;
+/** Attaches a label of lattice Lat to a value (see labelIn). */
+export function label<Lat extends AnyLattice, L extends ElementOf<Lat>, V>(l: L, v: V, lattice: Lat): Labeled<L, V, Lat>;
+/** Attaches a DC label to a value (see dc-label.ts). */
+export function label<L extends AnyDC, V>(l: L, v: V): DCLabeled<L, V>;
+export function label<V>(l: Level | AnyDC, v: V, lattice: AnyLattice = powerset): Labeled<Level, V, AnyLattice> | DCLabeled<AnyDC, V> {
+    return isDC(l) ? dcLabel(l, v) : labelIn(lattice, l, v);
+}
+
 /**
- * Attaches a label to a value using closure-based encapsulation.
+ * Attaches a label of a lattice to a value using closure-based encapsulation.
  * The label and value are captured in closure scope and cannot be accessed
  * except through the provided methods.
+ * Made while a computation runs, it is made from the secrets the computation read (see secretsOf).
  */
-export function label<L extends Level, V>(l: L, v: V): Labeled<L, V> {
+export function labelIn<L extends Level, V, Lat extends AnyLattice>(lattice: Lat, l: L, v: V): Labeled<L, V, Lat> {
     // These variables are captured in the closure - truly private!
     const privateLabel: L = l;
     const privateValue: V = v;
 
-    return {
+    const lv: Labeled<L, V, Lat> = {
         getLabel(): L {
             return privateLabel;
         },
 
+        getLattice(): Lat {
+            return lattice;
+        },
+
         unsafeGetValue(): V {
             return privateValue;
         }
     };
+    if (reads !== undefined && reads.length > 0) madeFrom.set(lv, reads.slice());
+    return lv;
+}
+
+/** Labels a value made from labeled values lvs: it is made from their secrets (see secretsOf). */
+export function labelFrom<L extends Level, V, Lat extends AnyLattice>(
+    lattice: Lat,
+    l: L,
+    v: V,
+    lvs: readonly Labeled<Level, unknown, AnyLattice>[]
+): Labeled<L, V, Lat> {
+    return withReads(() => {
+        lvs.forEach(readSecrets);
+        return labelIn(lattice, l, v);
+    });
+}
+
+// SECRETS_________________________________________________
+
+// a labeled value made from data that was not labeled is a secret
+// of its own. one made from labeled values (by upLabel, liftL, or a
+// computation that read them, e.g. boxed by toLabeled or runLIO) is
+// a copy: it is made from their secrets. budgets (see budget.ts) are
+// spent on secrets, so a copy cannot start a budget afresh.
+// what a value was made from is kept here, out of reach of the code
+// that holds the value: it cannot be set or reset. (what a computation
+// read is tracked while it runs: it is synchronous, but for its
+// continuations, see bindAsync. a value taken out with unsafeGetValue
+// and labeled anew is a new secret: that is what unsafe means.)
+
+type AnyLabeled = Labeled<Level, unknown, AnyLattice>;
+
+const madeFrom = new WeakMap<AnyLabeled, readonly AnyLabeled[]>();
+
+// the secrets the running computation has read so far (undefined if none runs).
+let reads: AnyLabeled[] | undefined = undefined;
+
+/** The secrets a labeled value was made from (itself, if it is one). */
+export function secretsOf(lv: AnyLabeled): readonly AnyLabeled[] {
+    return madeFrom.get(lv) ?? [lv];
+}
+
+/** Records that the running computation read lv (see unLabel). */
+export function readSecrets(lv: AnyLabeled): void {
+    const rs = reads;
+    if (rs === undefined) return;
+    secretsOf(lv).forEach(s => {
+        if (rs.indexOf(s) < 0) rs.push(s);
+    });
+}
+
+/** What the running computation has read so far (to run the rest of it later, see withReads). */
+export function readsSoFar(): AnyLabeled[] {
+    return reads ?? [];
+}
+
+/**
+ * Runs run as (part of) a computation that has read rs so far
+ * (by default, what the running computation has read, if any).
+ */
+export function withReads<T>(run: () => T, rs: AnyLabeled[] = readsSoFar().slice()): T {
+    const outer = reads;
+    reads = rs;
+    try {
+        return run();
+    } finally {
+        reads = outer;
+    }
 }
 
 /**
@@ -57,9 +146,10 @@ export function labelOf<L extends Level, V>(lv: Labeled<L, V>): L {
     return lv.getLabel();
 }
 
-/** Up-classify label on labeled-value. */
-export function upLabel<L extends L_, L_ extends Level, V>(l_: L_): (_: Labeled<L, V>) => Labeled<L_, V> {
-    return (lv: Labeled<L, V>) => {
-        return label(l_, lv.unsafeGetValue());
+/** Up-classify label on labeled-value (a copy: the same secret). Also checks L <: L_ at runtime. */
+export function upLabel<L extends L_, L_ extends Level, V, Lat extends AnyLattice = Powerset>(l_: L_): (_: Labeled<L, V, Lat>) => Labeled<L_, V, Lat> {
+    return (lv: Labeled<L, V, Lat>) => {
+        assertFlow(lv.getLattice(), lv.getLabel(), l_, "upLabel");
+        return labelFrom(lv.getLattice(), l_, lv.unsafeGetValue(), [lv]);
     }
 }
\ No newline at end of file
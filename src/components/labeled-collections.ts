@@ -0,0 +1,167 @@
+import {Level, LUB, lub, powerset} from "./lattice";
+import {label, Labeled, labelFrom} from "./label";
+
+// LABELED_COLLECTIONS_____________________________________
+
+// a labeled array has two kinds of labels: each element has its
+// own, and the array's shape (its length, and the order of its
+// elements) has one too. so it is a labeled array of labeled values:
+//   LabeledArray<S, L, V> = Labeled<S, readonly Labeled<L, V>[]>
+// likewise, a labeled map labels its key set with S, and each value.
+// operations track both:
+//  - mapL touches each element on its own: labels stay as they are.
+//  - filterL decides the shape by the elements (and by the predicate,
+//    if it is labeled): the shape is raised to their lub.
+//  - sortL decides the order by the elements: the same.
+//  - reduceL and groupByL depend on every element and on the shape.
+
+/** An array whose shape is labeled S and whose elements are labeled L. */
+export type LabeledArray<S extends Level, L extends Level, V> = Labeled<S, readonly Labeled<L, V>[]>;
+
+/** A map whose key set is labeled S and whose values are labeled L. */
+export type LabeledMap<S extends Level, K, L extends Level, V> = Labeled<S, ReadonlyMap<K, Labeled<L, V>>>;
+
+/** Makes a labeled array. */
+export function labeledArray<S extends Level, L extends Level, V>(s: S, xs: readonly Labeled<L, V>[]): LabeledArray<S, L, V> {
+    return label(s, Object.freeze(xs.slice()));
+}
+
+/** Makes a labeled map. */
+export function labeledMap<S extends Level, K, L extends Level, V>(
+    s: S,
+    entries: readonly (readonly [K, Labeled<L, V>])[]
+): LabeledMap<S, K, L, V> {
+    const m = new Map<K, Labeled<L, V>>();
+    entries.forEach(([k, v]) => m.set(k, v));
+    return label(s, m);
+}
+
+function isMap<K, L extends Level, V>(c: readonly Labeled<L, V>[] | ReadonlyMap<K, Labeled<L, V>>): c is ReadonlyMap<K, Labeled<L, V>> {
+    return !Array.isArray(c);
+}
+
+function elementsOf<K, L extends Level, V>(c: readonly Labeled<L, V>[] | ReadonlyMap<K, Labeled<L, V>>): Labeled<L, V>[] {
+    if (!isMap(c)) return c.slice();
+    const xs: Labeled<L, V>[] = [];
+    c.forEach(v => xs.push(v));
+    return xs;
+}
+
+// the lub of l and the labels of some elements.
+function lubOf(l: Level, xs: readonly Labeled<Level, unknown>[]): Level {
+    return xs.reduce<Level>((acc, x) => lub(acc, x.getLabel()), l);
+}
+
+/** Applies f to each element (each keeps its label). */
+export function mapL<S extends Level, L extends Level, V, W>(la: LabeledArray<S, L, V>, f: (v: V) => W): LabeledArray<S, L, W>;
+/** Applies f to each value (each keeps its label). */
+export function mapL<S extends Level, K, L extends Level, V, W>(lm: LabeledMap<S, K, L, V>, f: (v: V) => W): LabeledMap<S, K, L, W>;
+export function mapL<K, V, W>(
+    lc: Labeled<Level, readonly Labeled<Level, V>[] | ReadonlyMap<K, Labeled<Level, V>>>,
+    f: (v: V) => W
+): unknown {
+    const s = lc.getLabel();
+    const c = lc.unsafeGetValue();
+    const g = (x: Labeled<Level, V>): Labeled<Level, W> => labelFrom(powerset, x.getLabel(), f(x.unsafeGetValue()), [x]);
+    if (!isMap(c)) return labeledArray(s, c.map(g));
+    const m = new Map<K, Labeled<Level, W>>();
+    c.forEach((v, k) => m.set(k, g(v)));
+    return label(s, m);
+}
+
+/** Keeps the elements p holds for; the shape is raised to the elements' labels. */
+export function filterL<S extends Level, L extends Level, V>(
+    la: LabeledArray<S, L, V>,
+    p: (v: V) => boolean
+): LabeledArray<LUB<S, L>, L, V>;
+/** Keeps the elements a labeled predicate holds for; the shape is raised to its label, too. */
+export function filterL<S extends Level, L extends Level, V, P extends Level>(
+    la: LabeledArray<S, L, V>,
+    p: Labeled<P, (v: V) => boolean>
+): LabeledArray<LUB<S, LUB<L, P>>, L, V>;
+/** Keeps the entries p holds for; the key set is raised to the values' labels. */
+export function filterL<S extends Level, K, L extends Level, V>(
+    lm: LabeledMap<S, K, L, V>,
+    p: (v: V) => boolean
+): LabeledMap<LUB<S, L>, K, L, V>;
+/** Keeps the entries a labeled predicate holds for; the key set is raised to its label, too. */
+export function filterL<S extends Level, K, L extends Level, V, P extends Level>(
+    lm: LabeledMap<S, K, L, V>,
+    p: Labeled<P, (v: V) => boolean>
+): LabeledMap<LUB<S, LUB<L, P>>, K, L, V>;
+export function filterL<K, V>(
+    lc: Labeled<Level, readonly Labeled<Level, V>[] | ReadonlyMap<K, Labeled<Level, V>>>,
+    p: ((v: V) => boolean) | Labeled<Level, (v: V) => boolean>
+): unknown {
+    const s0 = lc.getLabel();
+    const xs = lc.unsafeGetValue();
+    const [pl, pf] = typeof p === "function" ? [s0, p] : [lub(s0, p.getLabel()), p.unsafeGetValue()];
+    const s = lubOf(pl, elementsOf(xs));
+    if (!isMap(xs)) return labeledArray(s, xs.filter(x => pf(x.unsafeGetValue())));
+    const m = new Map<K, Labeled<Level, V>>();
+    xs.forEach((v, k) => {
+        if (pf(v.unsafeGetValue())) m.set(k, v);
+    });
+    return label(s, m);
+}
+
+/** Folds the elements (in order); the result depends on all of them, and on the shape. */
+export function reduceL<S extends Level, L extends Level, V, A>(
+    la: LabeledArray<S, L, V>,
+    f: (acc: A, v: V) => A,
+    init: A
+): Labeled<LUB<S, L>, A>;
+/** Folds the values (in insertion order); the result depends on all of them, and on the key set. */
+export function reduceL<S extends Level, K, L extends Level, V, A>(
+    lm: LabeledMap<S, K, L, V>,
+    f: (acc: A, v: V, k: K) => A,
+    init: A
+): Labeled<LUB<S, L>, A>;
+export function reduceL<K, V, A>(
+    lc: Labeled<Level, readonly Labeled<Level, V>[] | ReadonlyMap<K, Labeled<Level, V>>>,
+    f: (acc: A, v: V, k?: K) => A,
+    init: A
+): unknown {
+    const xs = lc.unsafeGetValue();
+    const s = lubOf(lc.getLabel(), elementsOf(xs));
+    let acc = init;
+    if (!isMap(xs)) xs.forEach(x => acc = f(acc, x.unsafeGetValue()));
+    else xs.forEach((v, k) => acc = f(acc, v.unsafeGetValue(), k));
+    return labelFrom(powerset, s, acc, [lc, ...elementsOf(xs)]);
+}
+
+/** Sorts the elements (stably); the order is raised to the elements' labels. */
+export function sortL<S extends Level, L extends Level, V>(
+    la: LabeledArray<S, L, V>,
+    cmp: (a: V, b: V) => number
+): LabeledArray<LUB<S, L>, L, V> {
+    const xs = la.unsafeGetValue();
+    const s = lubOf(la.getLabel(), xs);
+    const sorted = xs
+        .map((x, i) => [x, i] as const)
+        .sort(([a, i], [b, j]) => cmp(a.unsafeGetValue(), b.unsafeGetValue()) || i - j)
+        .map(([x]) => x);
+    return labeledArray(s as LUB<S, L>, sorted);
+}
+
+/**
+ * Groups the elements by key (keeping their order). Which keys there are,
+ * and which elements each group has, depend on the elements and the shape.
+ */
+export function groupByL<S extends Level, L extends Level, V, K>(
+    la: LabeledArray<S, L, V>,
+    key: (v: V) => K
+): LabeledMap<LUB<S, L>, K, LUB<S, L>, readonly Labeled<L, V>[]> {
+    const xs = la.unsafeGetValue();
+    const s = lubOf(la.getLabel(), xs) as LUB<S, L>;
+    const groups = new Map<K, Labeled<L, V>[]>();
+    xs.forEach(x => {
+        const k = key(x.unsafeGetValue());
+        const g = groups.get(k);
+        if (g === undefined) groups.set(k, [x]);
+        else g.push(x);
+    });
+    const m = new Map<K, LabeledArray<LUB<S, L>, L, V>>();
+    groups.forEach((g, k) => m.set(k, labeledArray(s, g)));
+    return label(s, m);
+}
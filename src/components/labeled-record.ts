@@ -0,0 +1,111 @@
+import {Bot, botLevel, Level, lub, powerset} from "./lattice";
+import {Labeled, labelFrom} from "./label";
+import {FlowViolation} from "./enforcement";
+import {Intersect} from "../misc/subtyping";
+
+// LABELED_RECORDS_________________________________________
+
+// Labeled<L,V> labels a whole value, so a record with one secret
+// field is secret as a whole. a labeled record labels each field
+// on its own: {name: Labeled<Public, string>, ssn: Labeled<Secret, string>}.
+// reading one field (project, then unLabel) only raises the data-level
+// to that field's label. pick, omit and merge keep each field's label;
+// collapse gives up on fine-grained labels, and labels the whole
+// record with the lub of its fields' labels.
+// spread goes the other way. its fields are not labeled, so it only
+// takes records whose fields the type names, and which have all of
+// them: with an index signature (e.g. { [user: string]: number }), an
+// optional field (e.g. { ssn?: string }) or a union of records (e.g.
+// { kind: "a" } | { kind: "b", b: number }), which keys there are is
+// data too.
+
+/** The fields of a labeled record: each is a labeled value. */
+export type Fields = { readonly [field: string]: Labeled<Level, unknown> };
+
+/** A record whose fields are labeled one by one. */
+export type LabeledRecord<F extends Fields> = { readonly [K in keyof F]: F[K] };
+
+type LabelOfField<T> = T extends Labeled<infer L, infer _V> ? L : never;
+type ValueOfField<T> = T extends Labeled<infer _L, infer V> ? V : never;
+
+/** The lub of the labels of the fields (type-level). */
+export type RecordLabel<F extends Fields> = { [K in keyof F]: LabelOfField<F[K]> }[keyof F];
+
+/** The record of the fields' values (type-level). */
+export type RecordValue<F extends Fields> = { [K in keyof F]: ValueOfField<F[K]> };
+
+/** Makes a labeled record (a frozen copy of fields). */
+export function labeledRecord<const F extends Fields>(fields: F): LabeledRecord<F> {
+    const r: { [field: string]: Labeled<Level, unknown> } = {};
+    Object.keys(fields).forEach(k => r[k] = fields[k]);
+    return Object.freeze(r) as LabeledRecord<F>;
+}
+
+/** A field of a labeled record (labeled with its own label only). */
+export function project<F extends Fields, K extends keyof F>(r: LabeledRecord<F>, k: K): F[K] {
+    return r[k];
+}
+
+/** The record with only the given fields. */
+export function pick<F extends Fields, K extends keyof F & string>(r: LabeledRecord<F>, ...ks: K[]): LabeledRecord<Pick<F, K>> {
+    const fs: { [field: string]: Labeled<Level, unknown> } = {};
+    ks.forEach(k => fs[k] = r[k]);
+    return labeledRecord(fs) as LabeledRecord<Pick<F, K>>;
+}
+
+/** The record without the given fields. */
+export function omit<F extends Fields, K extends keyof F & string>(r: LabeledRecord<F>, ...ks: K[]): LabeledRecord<Omit<F, K>> {
+    const fs: { [field: string]: Labeled<Level, unknown> } = {};
+    Object.keys(r).filter(k => ks.indexOf(k as K) < 0).forEach(k => fs[k] = r[k]);
+    return labeledRecord(fs) as LabeledRecord<Omit<F, K>>;
+}
+
+/** The fields of both records; where both have a field, the second's wins (as with spread). */
+export function merge<F1 extends Fields, F2 extends Fields>(
+    r1: LabeledRecord<F1>,
+    r2: LabeledRecord<F2>
+): LabeledRecord<Omit<F1, keyof F2> & F2> {
+    const fs: { [field: string]: Labeled<Level, unknown> } = {};
+    Object.keys(r1).forEach(k => fs[k] = r1[k]);
+    Object.keys(r2).forEach(k => fs[k] = r2[k]);
+    return labeledRecord(fs) as LabeledRecord<Omit<F1, keyof F2> & F2>;
+}
+
+/** The whole record as one labeled value, labeled with the lub of the fields' labels. */
+export function collapse<F extends Fields>(r: LabeledRecord<F>): Labeled<RecordLabel<F>, RecordValue<F>> {
+    let l: Level = botLevel;
+    const v: { [field: string]: unknown } = {};
+    Object.keys(r).forEach(k => {
+        l = lub(l, r[k].getLabel());
+        v[k] = r[k].unsafeGetValue();
+    });
+    return labelFrom(powerset, l as RecordLabel<F>, v as RecordValue<F>, Object.keys(r).map(k => r[k]));
+}
+
+// the optional fields of V.
+type OptionalFields<V> = { [K in keyof V]-?: {} extends Pick<V, K> ? K : never }[keyof V];
+
+// rejects V if which keys it has depends on its value (an index signature,
+// an optional field, a union of records): its keys (labeled L) would become
+// the fields of the labeled record, which are not labeled (Bot).
+type RequireKnownFields<L extends Level, V> =
+    string extends keyof V ? FlowViolation<"fields of an index signature", L, Bot>
+        : number extends keyof V ? FlowViolation<"fields of an index signature", L, Bot>
+            : [OptionalFields<V>] extends [never]
+                ? [V] extends [Intersect<V>] ? unknown : FlowViolation<"fields of a union of records", L, Bot>
+                : FlowViolation<"optional fields", L, Bot>;
+
+/**
+ * Splits a labeled record value into a labeled record, each field labeled L.
+ * V must name its fields, and have all of them (no index signature,
+ * optional field or union of records).
+ */
+export function spread<L extends Level, V extends { readonly [field: string]: unknown }>(
+    lv: Labeled<L, V> & RequireKnownFields<L, V>
+): LabeledRecord<{ [K in keyof V]: Labeled<L, V[K]> }> {
+    const l = lv.getLabel();
+    const v = lv.unsafeGetValue();
+    const fs: { [field: string]: Labeled<Level, unknown> } = {};
+    Object.keys(v).forEach(k => fs[k] = labelFrom(powerset, l, v[k], [lv]));
+    return labeledRecord(fs) as LabeledRecord<{ [K in keyof V]: Labeled<L, V[K]> }>;
+}
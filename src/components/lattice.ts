@@ -23,7 +23,8 @@ export type LUB<L extends Level, R extends Level> = true extends true ? L | R :
 // to have type L|R, not LUB<L,R>. see e0 and b1 below)
 
 /** Value-level function for least upper bound. */
-export const lub = <L extends Level, R extends Level>(l: L, r: R): LUB<L, R> => l;
+export const lub = <L extends Level, R extends Level>(l: L, r: R): LUB<L, R> =>
+    powerset.lub(l, r);
 
 // the return type is actually L ; making it
 // L | R is actually weakening the guarantee
@@ -35,6 +36,11 @@ export const lub = <L extends Level, R extends Level>(l: L, r: R): LUB<L, R> =>
 // (but that's a runtime overhead that's
 // unnecessary when we only need this for
 // type checking)
+// but we do need it: at runtime, levels are data
+// too (checked in dynamic mode, see DYNAMIC_MODE
+// below; shown in failures; serialized), so we
+// compute the actual lub (in the powerset lattice;
+// other lattices bring their own, see PLUGGABLE_LATTICES).
 
 // Type-level function for greatest lower bound is just
 // a set intersection.
@@ -46,7 +52,7 @@ export type GLB<L extends Level, R extends Level> = true extends true ? L & R :
 
 /** Value-level function for greatest lower bound. */
 export function glb<L extends Level, R extends Level>(l: L, r: R): GLB<L, R> {
-    return botLevel
+    return powerset.glb(l, r)
 }
 
 // idea: if l === r then return l else return botlevel.
@@ -95,4 +101,184 @@ export type Top = Level;
 export const botLevel: Bot = "👇" as Bot;
 
 /** Top lattice element. The type represents full  set of principals*/
-export const topLevel: Top = "👆" as Top;
\ No newline at end of file
+export const topLevel: Top = "👆" as Top;
+
+// DYNAMIC_MODE____________________________________________
+
+// everything above is checked by the type checker. that's
+// enough when all levels are known statically. it is not when
+// levels come from untyped data (JSON, plugins, ...): then the
+// static type is just Level, and only the runtime level tells us
+// who may see the data.
+// so we offer a dynamic mode, in which the monad also checks flows
+// at runtime, on the real levels (in the default powerset lattice,
+// a level is a set of principals; see PLUGGABLE_LATTICES below).
+// the mode is chosen when a computation is run (see runLIO), and
+// is kept in its context: there is no global switch, so one part
+// of a program cannot turn the checks off for another.
+
+/** How flows are enforced: by the type checker only, or also at runtime. */
+export type EnforcementMode = "static" | "dynamic";
+
+// at runtime, a single principal is just its string (as before),
+// botLevel is the empty set and topLevel is the full set.
+// sets of two or more principals are strings too: 👥 followed by
+// the JSON of the sorted principals. so a level is a string at
+// runtime, as its type says, and the same set is always the same
+// string (=== compares levels). a principal whose name looks like
+// that is taken for the set; same hack as botLevel and topLevel.
+
+const setTag = "👥";
+
+function encodeSet(sorted: ReadonlyArray<Principal>): string {
+    return setTag + JSON.stringify(sorted);
+}
+
+// the principals of a set of two or more, if l is one.
+function decodeSet(l: Level): ReadonlyArray<Principal> | undefined {
+    if (l.indexOf(setTag) !== 0) return undefined;
+    let ps: unknown;
+    try {
+        ps = JSON.parse(l.slice(setTag.length));
+    } catch (e) {
+        return undefined;
+    }
+    if (!Array.isArray(ps) || ps.length < 2 || !ps.every(p => typeof p === "string")) return undefined;
+    const sorted: Principal[] = ps;
+    // only the encoding levelOf makes (sorted, no duplicates) is a set.
+    return encodeSet(sorted.filter((p, i) => sorted.indexOf(p) === i).sort()) === l ? sorted : undefined;
+}
+
+/**
+ * The principals in a level, sorted.
+ * `undefined` stands for the full set of principals (topLevel).
+ */
+export function principalsOf(l: Level): ReadonlyArray<Principal> | undefined {
+    if (l === topLevel) return undefined;
+    if (l === botLevel) return [];
+    return decodeSet(l) ?? [l];
+}
+
+/** Builds the runtime level of a set of principals (`undefined` is the full set). */
+export function levelOf<L extends Level>(ps: ReadonlyArray<Principal> | undefined): L {
+    if (ps === undefined) return topLevel as L;
+    const sorted = ps.filter((p, i) => ps.indexOf(p) === i).sort();
+    if (sorted.length === 0) return botLevel as L;
+    if (sorted.length === 1) return sorted[0] as L;
+    return encodeSet(sorted) as L;
+}
+
+function setLeq(l: Level, r: Level): boolean {
+    const ls = principalsOf(l);
+    const rs = principalsOf(r);
+    if (rs === undefined) return true;
+    if (ls === undefined) return false;
+    return ls.every(p => rs.indexOf(p) >= 0);
+}
+
+function setUnion(l: Level, r: Level): Level {
+    const ls = principalsOf(l);
+    const rs = principalsOf(r);
+    if (ls === undefined || rs === undefined) return topLevel;
+    return levelOf(ls.concat(rs));
+}
+
+function setIntersection(l: Level, r: Level): Level {
+    const ls = principalsOf(l);
+    const rs = principalsOf(r);
+    if (ls === undefined) return r;
+    if (rs === undefined) return l;
+    return levelOf(ls.filter(p => rs.indexOf(p) >= 0));
+}
+
+function setShow(l: Level): string {
+    const ps = principalsOf(l);
+    if (ps === undefined) return "⊤";
+    if (ps.length === 0) return "⊥";
+    return ps.map(p => JSON.stringify(p)).join(" | ");
+}
+
+// PLUGGABLE_LATTICES______________________________________
+
+// the powerset lattice is not the only one we can support.
+// the trick that makes the type-level work is that lattice
+// order is modeled as subtyping, lub as union and glb as
+// intersection. any lattice whose elements we can encode as
+// unions of string literals, s.t. that holds, works with the
+// type-level functions above.
+// e.g. a linear order a < b < c is encoded as
+//   a = never, b = "b", c = "b" | "c"
+// (see lattices.ts for more.)
+// at the value-level, each lattice is free to represent its
+// elements however it likes (another type-assertion hack);
+// the operations below interpret them.
+// Labeled, LIO, bind, src, snk, output, ... take the lattice as a
+// parameter (Lat; the powerset lattice by default): a labeled value
+// carries its lattice, and so does the context a computation runs
+// in (see runLIO). there is no global lattice, so parts of a
+// program can use different lattices.
+
+/**
+ * A lattice, with elements E, bottom B and top T.
+ * The type-level operations are LUB, GLB and LEQ (over E);
+ * the value-level operations are the methods.
+ * Value-level operations must also accept botLevel and topLevel
+ * (e.g. ret produces them), as this lattice's bottom and top.
+ */
+export interface Lattice<E extends Level, B extends E = E, T extends E = E> {
+    /** Bottom lattice element. */
+    readonly bot: B;
+    /** Top lattice element. */
+    readonly top: T;
+    /** Value-level least upper bound. */
+    lub<L extends E, R extends E>(l: L, r: R): LUB<L, R>;
+    /** Value-level greatest lower bound. */
+    glb<L extends E, R extends E>(l: L, r: R): GLB<L, R>;
+    /** Value-level less-than-or-equal. */
+    leq(l: E, r: E): boolean;
+    /** Checks (at runtime) whether a value is an element of this lattice. */
+    isLevel(l: unknown): l is E;
+    /** Human-readable rendering of an element. */
+    show(l: E): string;
+}
+
+/** Any lattice (every lattice is one). */
+export type AnyLattice = Lattice<Level>;
+
+/** The elements of a lattice (type-level). */
+export type ElementOf<Lat extends AnyLattice> = Parameters<Lat["leq"]>[0];
+
+/** The bottom of a lattice (type-level). */
+export type BotOf<Lat extends AnyLattice> = Lat["bot"];
+
+/** The top of a lattice (type-level). */
+export type TopOf<Lat extends AnyLattice> = Lat["top"];
+
+/** The type of the powerset lattice. */
+export type Powerset = Lattice<Level, Bot, Top>;
+
+/** The powerset lattice over principals. This is the default lattice. */
+export const powerset: Powerset = {
+    bot: botLevel,
+    top: topLevel,
+    lub: <L extends Level, R extends Level>(l: L, r: R) => setUnion(l, r) as LUB<L, R>,
+    glb: <L extends Level, R extends Level>(l: L, r: R) => setIntersection(l, r) as GLB<L, R>,
+    leq: setLeq,
+    isLevel: (l: unknown): l is Level => typeof l === "string",
+    show: setShow
+};
+
+/** Value-level less-than-or-equal, in the powerset lattice. */
+export function leq(l: Level, r: Level): boolean {
+    return powerset.leq(l, r);
+}
+
+/** Checks (at runtime) whether a value is a level of the powerset lattice. */
+export function isLevel(l: unknown): l is Level {
+    return powerset.isLevel(l);
+}
+
+/** Human-readable rendering of a runtime level, in the powerset lattice. */
+export function showLevel(l: Level): string {
+    return powerset.show(l);
+}
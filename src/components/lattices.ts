@@ -0,0 +1,146 @@
+import {botLevel, Lattice, Level, topLevel} from "./lattice";
+
+// LATTICES________________________________________________
+
+// Lattices other than the (default) powerset lattice.
+// Types follow the encoding described in lattice.ts: order is
+// subtyping, lub is union, glb is intersection. Values are
+// whatever is convenient; each lattice interprets its own.
+
+// LINEAR_ORDERS___________________________________________
+
+// a linear order n0 < n1 < ... < nk is encoded as
+//   n0 = never, n1 = "n1", n2 = "n1" | "n2", ..., nk = "n1" | ... | "nk"
+// (i.e. each element is the set of names at or below it, minus the bottom.)
+// at runtime, an element is just its name.
+
+/** Type-level map from each name of a linear order to its encoding. */
+export type LinearLevels<
+    Names extends readonly string[],
+    Below extends string = never,
+    First extends boolean = true
+> =
+    Names extends readonly [infer H extends string, ...infer T extends readonly string[]]
+        ? (First extends true ? { readonly [K in H]: never } : { readonly [K in H]: Below | H })
+        & LinearLevels<T, First extends true ? never : Below | H, false>
+        : {};
+
+/** The elements of a linear order (all names but the bottom one). */
+export type LinearElement<Names extends readonly [string, ...string[]]> = Exclude<Names[number], Names[0]>;
+
+/** A linear order, with its elements by name. */
+export type LinearLattice<Names extends readonly [string, ...string[]]> =
+    Lattice<LinearElement<Names>, never, LinearElement<Names>> & {
+    readonly levels: LinearLevels<Names>;
+}
+
+/** Builds the linear order names[0] < names[1] < ... */
+export function linear<Names extends readonly [string, ...string[]]>(names: Names): LinearLattice<Names> {
+    const ns: readonly string[] = names;
+    const rank = (l: unknown): number =>
+        l === botLevel ? 0 : l === topLevel ? ns.length - 1 : ns.indexOf(l as string);
+    // the name at a rank, asserted to be an element (same hack as botLevel).
+    const at = <T extends Level>(i: number): T => ns[i] as T;
+
+    const levels: { [name: string]: Level } = {};
+    ns.forEach(n => levels[n] = n);
+
+    return {
+        bot: at(0),
+        top: at(ns.length - 1),
+        lub: (l, r) => at(Math.max(rank(l), rank(r))),
+        glb: (l, r) => at(Math.min(rank(l), rank(r))),
+        leq: (l, r) => rank(l) >= 0 && rank(l) <= rank(r),
+        isLevel: (l: unknown): l is LinearElement<Names> => rank(l) >= 0,
+        show: (l) => ns[rank(l)],
+        levels: levels as LinearLevels<Names>
+    };
+}
+
+const twoPointNames = ["Public", "Secret"] as const;
+
+/** The two-point lattice Public < Secret. */
+export const twoPoint: LinearLattice<typeof twoPointNames> = linear(twoPointNames);
+
+/** Type-level elements of the two-point lattice, by name. */
+export type TwoPointLevels = LinearLevels<typeof twoPointNames>;
+
+const classificationNames = ["Unclassified", "Confidential", "Secret", "TopSecret"] as const;
+
+/** The classification lattice Unclassified < Confidential < Secret < TopSecret. */
+export const classification: LinearLattice<typeof classificationNames> = linear(classificationNames);
+
+/** Type-level elements of the classification lattice, by name. */
+export type ClassificationLevels = LinearLevels<typeof classificationNames>;
+
+// PRODUCTS________________________________________________
+
+// the product of lattices A and B is ordered componentwise.
+// we encode a pair (a, b) as the union of a's and b's names,
+// each tagged with the side it comes from, s.t. subtyping,
+// union and intersection still work componentwise.
+// at runtime, a pair is an object holding both components.
+
+/** Tags each name in a level (distributes over unions; never stays never). */
+export type Tagged<T extends string, L extends Level> = `${T}:${L}`;
+
+/** Type-level pair of levels, an element of a product lattice. */
+export type Pair<A extends Level, B extends Level> = Tagged<"fst", A> | Tagged<"snd", B>;
+
+/** The product of two lattices, with pairing and projections. */
+export type ProductLattice<EA extends Level, BA extends EA, TA extends EA, EB extends Level, BB extends EB, TB extends EB> =
+    Lattice<Pair<EA, EB>, Pair<BA, BB>, Pair<TA, TB>> & {
+    /** Builds the pair (a, b). */
+    pair<A extends EA, B extends EB>(a: A, b: B): Pair<A, B>;
+    /** The first component of a pair. */
+    fst(p: Pair<EA, EB>): EA;
+    /** The second component of a pair. */
+    snd(p: Pair<EA, EB>): EB;
+}
+
+type PairValue = { readonly fst: Level, readonly snd: Level };
+
+/** Builds the product lattice of la and lb. */
+export function product<EA extends Level, BA extends EA, TA extends EA, EB extends Level, BB extends EB, TB extends EB>(
+    la: Lattice<EA, BA, TA>,
+    lb: Lattice<EB, BB, TB>
+): ProductLattice<EA, BA, TA, EB, BB, TB> {
+    const pairs = new WeakSet<object>();
+    const isPair = (p: unknown): p is PairValue => typeof p === "object" && p !== null && pairs.has(p);
+    // a pair, asserted to be a Level (same hack as levelOf).
+    const mk = <P extends Level>(a: Level, b: Level): P => {
+        const p: PairValue = {fst: a, snd: b};
+        pairs.add(p);
+        return Object.freeze(p) as unknown as P;
+    };
+    const unpair = (p: unknown): PairValue =>
+        p === botLevel ? {fst: la.bot, snd: lb.bot}
+            : p === topLevel ? {fst: la.top, snd: lb.top}
+                : p as PairValue;
+
+    return {
+        bot: mk(la.bot, lb.bot),
+        top: mk(la.top, lb.top),
+        lub: (l, r) => {
+            const [pl, pr] = [unpair(l), unpair(r)];
+            return mk(la.lub(pl.fst as EA, pr.fst as EA), lb.lub(pl.snd as EB, pr.snd as EB));
+        },
+        glb: (l, r) => {
+            const [pl, pr] = [unpair(l), unpair(r)];
+            return mk(la.glb(pl.fst as EA, pr.fst as EA), lb.glb(pl.snd as EB, pr.snd as EB));
+        },
+        leq: (l, r) => {
+            const [pl, pr] = [unpair(l), unpair(r)];
+            return la.leq(pl.fst as EA, pr.fst as EA) && lb.leq(pl.snd as EB, pr.snd as EB);
+        },
+        isLevel: (l: unknown): l is Pair<EA, EB> =>
+            l === botLevel || l === topLevel || (isPair(l) && la.isLevel(l.fst) && lb.isLevel(l.snd)),
+        show: (l) => {
+            const p = unpair(l);
+            return `(${la.show(p.fst as EA)}, ${lb.show(p.snd as EB)})`;
+        },
+        pair: (a, b) => mk(a, b),
+        fst: (p) => unpair(p).fst as EA,
+        snd: (p) => unpair(p).snd as EB
+    };
+}
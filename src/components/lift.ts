@@ -0,0 +1,56 @@
+import {botLevel, Level, LUB, lub, powerset} from "./lattice";
+import {Labeled, labelFrom} from "./label";
+import {bind, LIO, unLabel} from "./monad";
+import {RequireFlow} from "./enforcement";
+
+// LIFTING_________________________________________________
+
+// a pure function of plain values becomes a function of labeled
+// values: its result depends on all its arguments, so it is
+// labeled with the lub of theirs. e.g.
+//   const lconcat = liftL((s1: string, s2: string) => s1 + s2)
+//   lconcat(label("Amy", "a"), label("Bob", "b"))  // Labeled<"Amy" | "Bob", string>
+// (unLabel it for an LIO with that data-level.)
+// a function that returns a computation is lifted with liftLIO:
+// the computation runs after reading the arguments, so (as with
+// bind) their labels must flow to its PC.
+
+/** The labeled versions of some arguments (type-level). */
+export type LabeledArgs<Args extends readonly unknown[]> = { readonly [I in keyof Args]: Labeled<Level, Args[I]> };
+
+/** The lub of the labels of some labeled arguments (type-level). */
+export type ArgLabels<T extends readonly Labeled<Level, unknown>[]> =
+    T[number] extends infer A ? A extends Labeled<infer L, infer _V> ? L : never : never;
+
+// the values of labeled arguments, in order: the i-th is the value
+// of the i-th argument, so they are the arguments Args (map cannot
+// say that, hence the overload).
+function valuesOf<Args extends readonly unknown[]>(lvs: LabeledArgs<Args>): Args;
+function valuesOf(lvs: readonly Labeled<Level, unknown>[]): readonly unknown[] {
+    return lvs.map(lv => lv.unsafeGetValue());
+}
+
+/** Lifts fn to labeled arguments: the result is labeled with the lub of their labels. */
+export function liftL<Args extends readonly unknown[], R>(fn: (...args: Args) => R):
+    <T extends LabeledArgs<Args>>(...lvs: T) => Labeled<ArgLabels<T>, R> {
+    return (...lvs) => {
+        const l = lvs.reduce<Level>((acc, lv) => lub(acc, lv.getLabel()), botLevel);
+        return labelFrom(powerset, l as ArgLabels<typeof lvs>, fn(...valuesOf<Args>(lvs)), lvs);
+    };
+}
+
+/**
+ * Lifts fn, which returns a computation, to labeled arguments: the
+ * arguments are unlabeled, then fn's computation runs (as with bind).
+ * In dynamic mode, checks the arguments' labels against the clearance and fn's PC.
+ */
+export function liftLIO<Args extends readonly unknown[], Pc extends Level, L extends Level, R>(fn: (...args: Args) => LIO<Pc, L, R>):
+    <T extends LabeledArgs<Args>>(...lvs: T & RequireFlow<ArgLabels<T>, Pc>) => LIO<Pc, LUB<ArgLabels<T>, L>, R> {
+    const collect = liftL((...args: Args) => args);
+    return <T extends LabeledArgs<Args>>(...lvs: T & RequireFlow<ArgLabels<T>, Pc>) => {
+        const ts: T = lvs;
+        const args: Labeled<ArgLabels<T>, Args> = collect(...ts);
+        // lvs' type required their labels to flow to Pc, but through T the type checker cannot tell.
+        return bind(unLabel(args), (vs) => fn(...vs) as LIO<Pc, L, R> & RequireFlow<ArgLabels<T>, Pc>);
+    };
+}
@@ -0,0 +1,117 @@
+import {Bot, botLevel, Level, lub, powerset, Top, topLevel} from "./lattice";
+import {labelFrom, labelIn, Labeled} from "./label";
+import {LIO} from "./monad";
+import {Contravariant, toContravariant} from "../misc/subtyping";
+import {asFailure, checkFlow} from "./enforcement";
+
+// LABELED_FUTURES_________________________________________
+
+// forking runs a computation without waiting for it; its result
+// is a future, labeled up front with L. the forker learns nothing
+// from the forked computation until it waits, so forking does not
+// raise the data-level; waiting does (to L).
+// the forked computation must not read above L (D <: L), as its
+// result (and whether it fails) depends on what it read.
+// (follows lFork/lWait of Haskell's LIO library.)
+
+/** The result of a forked computation, labeled L. */
+export type LabeledFuture<L extends Level, V> = {
+    /** Get the label (safe operation) */
+    getLabel(): L;
+
+    /** WARNING: Unsafe operation that gets the result, bypassing information flow control. */
+    unsafeGetPromise(): Promise<V>;
+}
+
+/**
+ * Starts m, and returns its result as a future labeled l.
+ * m runs right away, up to its first await (like an async function):
+ * only what it promises goes on concurrently, and is awaited by the future.
+ * If m fails, the future rejects with a LabeledFailure (labeled l);
+ * that is only reported to waitLIO (a future nobody waits for fails silently).
+ */
+export function forkLIO<L extends Level, Pc extends Level, D extends L, V>(
+    l: L,
+    m: LIO<Pc, D, V | Promise<V>>
+): LIO<Pc, Bot, LabeledFuture<L, V>> {
+    return (ctx) => {
+        let pc: Contravariant<Pc> = toContravariant(topLevel);
+        let result: Promise<V>;
+        try {
+            const [pc_, d, v] = m(ctx);
+            checkFlow(ctx, ctx.lattice.lub(ctx.current, d), l, "forkLIO");
+            pc = pc_;
+            result = Promise.resolve(v);
+        } catch (e) {
+            result = Promise.reject(e);
+        }
+        const p = result.then(undefined, (e) => Promise.reject(asFailure(e, l, ctx.lattice)));
+        // handled here, so that it is not an unhandled rejection; waitLIO still sees it.
+        p.then(undefined, () => undefined);
+        const future: LabeledFuture<L, V> = {
+            getLabel: () => l,
+            unsafeGetPromise: () => p
+        };
+        return [pc, botLevel, future];
+    };
+}
+
+/**
+ * Waits for a future: the data-level is raised to its label.
+ * Continue with bindAsync.
+ * In dynamic mode, rejects futures labeled above the clearance.
+ */
+export function waitLIO<L extends Level, V>(f: LabeledFuture<L, V>): LIO<Top, L, Promise<Labeled<L, V>>> {
+    return (ctx) => {
+        const l = f.getLabel();
+        checkFlow(ctx, l, ctx.clearance, "waitLIO");
+        return [toContravariant(topLevel), l, f.unsafeGetPromise().then(v => labelIn(ctx.lattice, l, v))];
+    };
+}
+
+// LABELED_PROMISE_COMBINATORS_____________________________
+
+// Promise.all and Promise.race over labeled values.
+// the result of all depends on every input, so it is labeled
+// with the lub of their labels. so is the result of race:
+// which input wins may depend on all of them (e.g. on how long
+// each took, which may depend on its data).
+// (they are for labels in the powerset lattice.)
+
+type LabelOf<P> = P extends Promise<Labeled<infer L, infer _V>> ? L : never;
+type ValueOf<P> = P extends Promise<Labeled<infer _L, infer V>> ? V : never;
+
+/** The lub of the labels of some labeled promises (type-level). */
+export type LabelsOf<Ps extends readonly Promise<Labeled<Level, unknown>>[]> = LabelOf<Ps[number]>;
+
+/** The values of some labeled promises (type-level). */
+export type ValuesOf<Ps extends readonly Promise<Labeled<Level, unknown>>[]> = { -readonly [K in keyof Ps]: ValueOf<Ps[K]> };
+
+function lubOf(lvs: Labeled<Level, unknown>[]): Level {
+    return lvs.reduce<Level>((l, lv) => lub(l, lv.getLabel()), botLevel);
+}
+
+/** Waits for all labeled values; the values come out together, labeled with the lub. */
+export function allL<const Ps extends readonly Promise<Labeled<Level, unknown>>[]>(
+    ps: Ps
+): Promise<Labeled<LabelsOf<Ps>, ValuesOf<Ps>>> {
+    return Promise.all(ps).then(
+        (lvs) => labelFrom(powerset, lubOf(lvs) as LabelsOf<Ps>, lvs.map(lv => lv.unsafeGetValue()) as ValuesOf<Ps>, lvs),
+        (e) => Promise.reject(asFailure(e, botLevel, powerset)));
+}
+
+/**
+ * Waits for the first labeled value; it comes out labeled with the lub of all labels.
+ * (labels are only known once each input resolves, so the lub is
+ * taken over the inputs resolved by then; the rest are still
+ * covered by the type.)
+ */
+export function raceL<const Ps extends readonly Promise<Labeled<Level, unknown>>[]>(
+    ps: Ps
+): Promise<Labeled<LabelsOf<Ps>, ValuesOf<Ps>[number]>> {
+    const settled: Labeled<Level, unknown>[] = [];
+    ps.forEach(p => p.then(lv => { settled.push(lv); }, () => {}));
+    return Promise.race(ps).then(
+        (lv) => labelFrom(powerset, lub(lubOf(settled), lv.getLabel()) as LabelsOf<Ps>, lv.unsafeGetValue() as ValuesOf<Ps>[number], [lv]),
+        (e) => Promise.reject(asFailure(e, lubOf(settled), powerset)));
+}
@@ -0,0 +1,197 @@
+import {GLB, Level, LUB, topLevel} from "./lattice";
+import {Labeled} from "./label";
+import {LIO, LIOContext, raiseCurrent} from "./monad";
+import {fromContravariant, Intersect, toContravariant} from "../misc/subtyping";
+import {checkFlow, LabeledFailure} from "./enforcement";
+
+// LABELED_CONTROL_FLOW____________________________________
+
+// branching on L-data is reading it: which branch runs (and so
+// which effects happen) depends on it. so each branch must have
+// a PC-level of at least L (L <: Lpc), exactly like the
+// continuation of bind. the PC-level of the whole is the glb of
+// the branches' (the most any of them may write to), and the
+// data-level is the lub of L and the branches'.
+// (branches run in a context whose current label is raised to L.)
+
+/** Runs one of two computations, depending on a labeled condition. */
+export function ifLIO<
+    L extends GLB<P1, P2>,          // L <: P1 , L <: P2
+    P1 extends Level, D1 extends Level, V1,
+    P2 extends Level, D2 extends Level, V2
+>(
+    cond: Labeled<L, boolean>,
+    thenM: LIO<P1, D1, V1>,
+    elseM: LIO<P2, D2, V2>
+): LIO<GLB<P1, P2>, LUB<L, LUB<D1, D2>>, V1 | V2> {
+    return (ctx) => {
+        const l = cond.getLabel();
+        const m: LIO<GLB<P1, P2>, D1 | D2, V1 | V2> = cond.unsafeGetValue() ? thenM : elseM;
+        const [pc, d, v] = m(raiseCurrent(ctx, l));
+        checkFlow(ctx, l, fromContravariant(pc), "ifLIO");
+        return [pc, ctx.lattice.lub(l, d) as LUB<L, LUB<D1, D2>>, v];
+    };
+}
+
+/** Runs a computation if a labeled condition holds. */
+export function whenLIO<L extends P, P extends Level, D extends Level, V>(
+    cond: Labeled<L, boolean>,
+    m: LIO<P, D, V>
+): LIO<P, LUB<L, D>, V | undefined> {
+    return (ctx) => {
+        const l = cond.getLabel();
+        // nothing runs, so nothing is written
+        if (!cond.unsafeGetValue()) return [toContravariant(topLevel), l, undefined];
+        const [pc, d, v] = m(raiseCurrent(ctx, l));
+        checkFlow(ctx, l, fromContravariant(pc), "whenLIO");
+        return [pc, ctx.lattice.lub(l, d), v];
+    };
+}
+
+// MATCHING________________________________________________
+
+type PCOf<M> = M extends LIO<infer P, infer _D, infer _V> ? P : never;
+type DataOf<M> = M extends LIO<infer _P, infer D, infer _V> ? D : never;
+type ValueOf<M> = M extends LIO<infer _P, infer _D, infer V> ? V : never;
+
+/** One case per tag; each may only write at or above L. */
+export type Cases<L extends Level, U, K extends keyof U> = {
+    readonly [T in U[K] & string]: (v: Extract<U, { readonly [k in K]: T }>) => LIO<L, Level, unknown>
+}
+
+/** The glb of the PC-levels of the cases (type-level). */
+export type CasesPC<C> =
+    Intersect<{ [T in keyof C]: C[T] extends (v: never) => infer M ? [PCOf<M>] : never }[keyof C]> extends [infer P extends Level] ? P : never;
+
+/** The lub of the data-levels of the cases (type-level). */
+export type CasesData<C> = { [T in keyof C]: C[T] extends (v: never) => infer M ? DataOf<M> : never }[keyof C];
+
+/** The values of the cases (type-level). */
+export type CasesValue<C> = { [T in keyof C]: C[T] extends (v: never) => infer M ? ValueOf<M> : never }[keyof C];
+
+/**
+ * Runs the case for the tag of a labeled value of a discriminated union.
+ * e.g. matchLIO(lv, "kind", {circle: (c) => ..., square: (s) => ...})
+ * A tag without a case (e.g. from untyped data) fails with a LabeledFailure
+ * (labeled with the current label raised to L: the tag is L-data).
+ */
+export function matchLIO<
+    L extends Level,
+    U extends { readonly [k in K]: string },
+    K extends string,
+    C extends Cases<L, U, K>
+>(
+    lv: Labeled<L, U>,
+    key: K,
+    cases: C
+): LIO<CasesPC<C>, LUB<L, CasesData<C>>, CasesValue<C>> {
+    return (ctx) => {
+        const l = lv.getLabel();
+        const u = lv.unsafeGetValue();
+        const c = caseOf<U>(cases, u[key]);
+        if (c === undefined) {
+            const e = new TypeError(`matchLIO: no case for ${JSON.stringify(u[key])}`);
+            throw new LabeledFailure(ctx.lattice.lub(ctx.current, l), ctx.current, e, ctx.lattice);
+        }
+        const [pc, d, v] = c(u)(raiseCurrent(ctx, l));
+        checkFlow(ctx, l, fromContravariant(pc), "matchLIO");
+        return [toContravariant(fromContravariant(pc) as CasesPC<C>), ctx.lattice.lub(l, d) as LUB<L, CasesData<C>>, v as CasesValue<C>];
+    };
+}
+
+// the case for a tag, if there is one (own properties only, so
+// that e.g. "constructor" is not a case). Cases gives each case
+// the members of U with its tag, so it takes the value it is for.
+function caseOf<U>(cases: object, tag: string): ((u: U) => LIO<Level, Level, unknown>) | undefined {
+    if (!Object.prototype.hasOwnProperty.call(cases, tag)) return undefined;
+    return (cases as { readonly [tag: string]: (u: U) => LIO<Level, Level, unknown> })[tag];
+}
+
+// BOUNDED_LOOPS___________________________________________
+
+// how often a loop runs depends on its condition, so loops are
+// like branches. they are bounded: they run at most `bound` times,
+// so an untrusted condition cannot make them run forever.
+// bodies run one after the other, without waiting for each other:
+// if they return promises, the value of the loop is a promise that
+// waits for all of them (and rejects as soon as one does).
+
+/** The value R of a loop, promised if the body's values W are promises. */
+export type LoopValue<W, R> = W extends PromiseLike<unknown> ? Promise<R> : R;
+
+// r, after the promises the body returned (if any).
+function settle<W, R>(pending: PromiseLike<unknown>[], r: R): LoopValue<W, R> {
+    const v = pending.length > 0 ? Promise.all(pending).then(() => r) : r;
+    return v as LoopValue<W, R>;
+}
+
+function isPromiseLike(v: unknown): v is PromiseLike<unknown> {
+    return typeof v === "object" && v !== null && typeof (v as PromiseLike<unknown>).then === "function";
+}
+
+/**
+ * Runs body on each element of a labeled array (at most bound of them).
+ * The number of runs depends on the array, so body may only write at or above L.
+ */
+export function forEachLIO<L extends P, A, P extends Level, D extends Level, W>(
+    lxs: Labeled<L, readonly A[]>,
+    body: (a: A, i: number) => LIO<P, D, W>,
+    bound: number
+): LIO<P, LUB<L, D>, LoopValue<W, null>> {
+    return (ctx) => {
+        const l = lxs.getLabel();
+        const xs = lxs.unsafeGetValue();
+        let c: LIOContext = raiseCurrent(ctx, l);
+        let pc: Level = topLevel;
+        let d: Level = l;
+        const pending: PromiseLike<unknown>[] = [];
+        for (let i = 0; i < xs.length && i < bound; i++) {
+            const [p, d_, w] = body(xs[i], i)(c);
+            if (isPromiseLike(w)) pending.push(w);
+            checkFlow(ctx, l, fromContravariant(p), "forEachLIO");
+            pc = ctx.lattice.glb(pc, fromContravariant(p));
+            d = ctx.lattice.lub(d, d_);
+            c = raiseCurrent(c, d_);
+        }
+        return [toContravariant(pc as P), d as LUB<L, D>, settle<W, null>(pending, null)];
+    };
+}
+
+/**
+ * Runs body while cond yields true (at most bound times).
+ * Returns the number of runs (once the body's promises, if any, resolve).
+ * Whether the loop goes on depends on cond's data, so body and cond
+ * may only write at or above it.
+ */
+export function whileLIO<
+    Lc extends GLB<Pc, P>,          // Lc <: Pc , Lc <: P
+    Pc extends Level,
+    P extends Level, D extends Level, W
+>(
+    cond: LIO<Pc, Lc, boolean>,
+    body: LIO<P, D, W>,
+    bound: number
+): LIO<GLB<Pc, P>, LUB<Lc, D>, LoopValue<W, number>> {
+    return (ctx) => {
+        let c: LIOContext = ctx;
+        let pc: Level = topLevel;
+        let d: Level | undefined = undefined;
+        let i = 0;
+        const pending: PromiseLike<unknown>[] = [];
+        for (; ;) {
+            const [pcc, lc, b] = cond(c);
+            pc = ctx.lattice.glb(pc, fromContravariant(pcc));
+            d = d === undefined ? lc : ctx.lattice.lub(d, lc);
+            c = raiseCurrent(c, lc);
+            if (!b || i >= bound) break;
+            const [p, d_, w] = body(c);
+            if (isPromiseLike(w)) pending.push(w);
+            checkFlow(ctx, d, fromContravariant(p), "whileLIO");
+            pc = ctx.lattice.glb(pc, fromContravariant(p));
+            d = ctx.lattice.lub(d, d_);
+            c = raiseCurrent(c, d_);
+            i++;
+        }
+        return [toContravariant(pc as GLB<Pc, P>), d as LUB<Lc, D>, settle<W, number>(pending, i)];
+    };
+}
@@ -0,0 +1,138 @@
+import {Bot, botLevel, Level, Top, topLevel} from "./lattice";
+import {Contravariant, fromContravariant, toContravariant} from "../misc/subtyping";
+import {LIO, LIOContext, raiseCurrent} from "./monad";
+import {asFailure, checkFlow, RequireFlow} from "./enforcement";
+
+// DO_NOTATION_____________________________________________
+
+// nested binds get hard to read:
+//   bind(m1, s1 => bind(m2, s2 => ret(s1 + s2)))
+// a do-block is a generator that yields its steps instead:
+//   lioDo(function* () {
+//       const s1 = yield* step(m1)
+//       const s2 = yield* step(m2)
+//       return s1 + s2
+//   })
+// lioDo runs the steps in order, as bind would: each runs with the
+// current label raised by the steps before it, and (in dynamic mode)
+// the data-level so far is checked against its PC. the PC of the
+// block is the glb of the steps' PCs, its data-level their lub.
+// statically, bind's check would be pairwise: each step's PC against
+// the data-levels of the steps before it. but the type of a generator
+// has one yield type, the union of its steps' types, which does not
+// say in which order they come. so the type checker requires every
+// step's data-level to flow to every step's PC. that is stricter than
+// bind: e.g. a public output *before* a secret unLabel is rejected;
+// use bind for those. (at runtime, in dynamic mode, the check is
+// pairwise, as bind's.)
+// steps whose value is a promise (input, output, waitLIO, ...) are
+// awaited with stepAsync, in lioDoAsync.
+// (yield* needs --downlevelIteration when targeting ES5.)
+
+/** A step of a do-block: a computation, and whether its value is awaited. */
+export type Step<Lpc extends Level, L extends Level, V> = {
+    readonly lio: LIO<Lpc, L, V>;
+    readonly async: false;
+}
+
+/** A step of an async do-block: a computation whose promised value is awaited. */
+export type AsyncStep<Lpc extends Level, L extends Level, V> = {
+    readonly lio: LIO<Lpc, L, Promise<V>>;
+    readonly async: true;
+}
+
+// any step (a PC of Bot is the most general, as the PC is contravariant).
+type AnyStep = Step<Bot, Level, unknown> | AsyncStep<Bot, Level, unknown>;
+
+/** The PC-level of a block with steps Y: the glb of theirs (Top if there are none). */
+export type StepsPC<Y extends AnyStep> =
+    [Y] extends [never] ? Top
+        : (Y extends { lio: LIO<infer P, infer _L, infer _V> } ? Contravariant<P> : never) extends Contravariant<infer P extends Level> ? P : never;
+
+/** The data-level of a block with steps Y: the lub of theirs. */
+export type StepsLabel<Y extends AnyStep> = Y extends { lio: LIO<infer _P, infer L, infer _V> } ? L : never;
+
+/** A step of a do-block; yield* it to get m's value. */
+export function* step<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, V>): Generator<Step<Lpc, L, V>, V, unknown> {
+    return (yield {lio: m, async: false}) as V;
+}
+
+/** A step of an async do-block; yield* it to get what m's value resolves to. */
+export function* stepAsync<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, Promise<V>>): Generator<AsyncStep<Lpc, L, V>, V, unknown> {
+    return (yield {lio: m, async: true}) as V;
+}
+
+/**
+ * Runs a do-block (see above).
+ * In dynamic mode, checks each step's PC against the data-level of the steps before it.
+ * Anything thrown is rethrown as a LabeledFailure, labeled with the current label.
+ */
+export function lioDo<Y extends Step<Bot, Level, unknown>, R>(
+    block: () => Generator<Y, R, unknown> & RequireFlow<StepsLabel<Y>, StepsPC<Y>>   // every L <: every Lpc
+): LIO<StepsPC<Y>, StepsLabel<Y>, R> {
+    return (ctx) => {
+        const [pc, l, r] = runBlock(block, ctx, () => {
+            throw new TypeError("lioDo: use lioDoAsync for async steps");
+        });
+        return [toContravariant(pc as StepsPC<Y>), l as StepsLabel<Y>, r as R];
+    };
+}
+
+/**
+ * Runs a do-block that may have async steps; its value is promised.
+ * The levels it returns at runtime only cover the steps up to the first
+ * async one (as with bindAsync); those after it are still checked.
+ * A failure (or rejection) becomes a rejected LabeledFailure, labeled with the current label.
+ */
+export function lioDoAsync<Y extends AnyStep, R>(
+    block: () => Generator<Y, R, unknown> & RequireFlow<StepsLabel<Y>, StepsPC<Y>>   // every L <: every Lpc
+): LIO<StepsPC<Y>, StepsLabel<Y>, Promise<R>> {
+    return (ctx) => {
+        let result: [Level, Level, Promise<R>];
+        try {
+            // the value is R, or (after an async step) a promise of it.
+            const [pc, l, r] = runBlock(block, ctx, (p, resume) => p.then(resume));
+            result = [pc, l, Promise.resolve(r as R | Promise<R>)];
+        } catch (e) {
+            result = [topLevel, botLevel, Promise.reject(e)];
+        }
+        return [toContravariant(result[0] as StepsPC<Y>), result[1] as StepsLabel<Y>, result[2]];
+    };
+}
+
+// runs the steps of a block, in order. at an async step, hands the
+// rest of the block (resume) to await; its value is then the rest's.
+function runBlock(
+    block: () => Iterator<AnyStep, unknown, unknown>,
+    ctx: LIOContext,
+    await_: (p: Promise<unknown>, resume: (v: unknown) => unknown) => unknown
+): [Level, Level, unknown] {
+    let pc: Level = topLevel;
+    let l: Level = botLevel;
+    let c = ctx;
+    let it: Iterator<AnyStep, unknown, unknown>;
+    const go = (next: () => IteratorResult<AnyStep, unknown>): unknown => {
+        try {
+            let r = next();
+            while (!r.done) {
+                const s = r.value;
+                const [spc, sl, v] = s.lio(c);
+                checkFlow(c, l, fromContravariant(spc), "lioDo");
+                pc = c.lattice.glb(pc, fromContravariant(spc));
+                l = c.lattice.lub(l, sl);
+                c = raiseCurrent(c, sl);
+                if (s.async) {
+                    const here = c;
+                    return Promise.resolve(await_(v as Promise<unknown>, (w) => go(() => it.next(w))))
+                        .then(undefined, (e) => Promise.reject(asFailure(e, here.current, here.lattice)));
+                }
+                r = it.next(v);
+            }
+            return r.value;
+        } catch (e) {
+            throw asFailure(e, c.current, c.lattice);
+        }
+    };
+    const v = go(() => (it = block()).next());
+    return [pc, l, v];
+}
@@ -0,0 +1,133 @@
+import {GLB, Level, LUB, Top} from "./lattice";
+import {labelIn, Labeled} from "./label";
+import {LIO, LIOContext, LIOResult, raiseCurrent} from "./monad";
+import {fromContravariant, toContravariant} from "../misc/subtyping";
+import {asFailure, checkFlow, LabeledFailure, RequireFlow} from "./enforcement";
+
+// LABELED_EXCEPTIONS______________________________________
+
+// throwing is writing: whoever catches learns that (and what)
+// we threw. so a thrown value carries the current label where it
+// was thrown (see LabeledFailure), and a handler sees it only as
+// a labeled value. whether the handler runs depends on that
+// label, so (as for the continuation of bind) its PC-level must
+// be at least the label, and its result is raised to it.
+// statically, a failure of m is labeled with m's data-level L:
+// everything m read before failing is part of L. at runtime (in
+// either mode), it carries the current label where it was thrown
+// (see LabeledFailure), which is at most L: the current label is
+// kept up to date by every bind, whether or not flows are checked.
+// flow violations cannot be caught.
+
+/** Throws a labeled value. */
+export function throwLIO<L extends Level, E>(le: Labeled<L, E>): LIO<Top, L, never> {
+    return (ctx) => {
+        const l = ctx.lattice.lub(ctx.current, le.getLabel());
+        throw new LabeledFailure(l, ctx.current, le.unsafeGetValue(), ctx.lattice);
+    };
+}
+
+// runs m; if it throws, returns the labeled failure instead.
+function attempt<Lpc extends Level, L extends Level, V>(
+    m: LIO<Lpc, L, V>,
+    ctx: LIOContext
+): [LIOResult<Lpc, L, V>, undefined] | [undefined, LabeledFailure] {
+    try {
+        return [m(ctx), undefined];
+    } catch (e) {
+        const f = asFailure(e, ctx.current, ctx.lattice);
+        if (f instanceof LabeledFailure) return [undefined, f];
+        throw f;
+    }
+}
+
+/**
+ * Runs m; if it throws, runs the handler on what was thrown (labeled).
+ * The result is raised to the label of the failure.
+ */
+export function catchLIO<
+    Lpc extends Level,
+    L extends Level,
+    V,
+    Hpc extends Level,
+    H extends Level,
+    W
+>(
+    m: LIO<Lpc, L, V>,
+    handler: (e: Labeled<L, unknown>) => LIO<Hpc, H, W> & RequireFlow<L, Hpc>   // L <: Hpc
+): LIO<GLB<Lpc, Hpc>, LUB<L, H>, V | W> {
+    return (ctx) => {
+        const [r, f] = attempt(m, ctx);
+        if (r !== undefined) {
+            const [lpc, l_, v] = r;
+            return [toContravariant(fromContravariant(lpc) as GLB<Lpc, Hpc>), l_ as LUB<L, H>, v];
+        }
+        const l = f!.label;
+        const [hpc, h, w] = handler(labelIn(ctx.lattice, l as L, f!.unsafeGetValue()))(raiseCurrent(ctx, l));
+        checkFlow(ctx, l, fromContravariant(hpc), "catchLIO");
+        return [toContravariant(fromContravariant(hpc) as GLB<Lpc, Hpc>), ctx.lattice.lub(l, h) as LUB<L, H>, w];
+    };
+}
+
+/**
+ * Like catchLIO, for computations whose value is a promise
+ * (e.g. made by bindAsync): also handles its rejection.
+ */
+export function catchAsyncLIO<
+    Lpc extends Level,
+    L extends Level,
+    V,
+    Hpc extends Level,
+    H extends Level,
+    W
+>(
+    m: LIO<Lpc, L, Promise<V>>,
+    handler: (e: Labeled<L, unknown>) => LIO<Hpc, H, Promise<W>> & RequireFlow<L, Hpc>   // L <: Hpc
+): LIO<GLB<Lpc, Hpc>, LUB<L, H>, Promise<V | W>> {
+    return (ctx) => {
+        const handle = (f: LabeledFailure): LIOResult<Hpc, H, Promise<W>> => {
+            const r = handler(labelIn(ctx.lattice, f.label as L, f.unsafeGetValue()))(raiseCurrent(ctx, f.label));
+            checkFlow(ctx, f.label, fromContravariant(r[0]), "catchAsyncLIO");
+            return r;
+        };
+        const [r, f] = attempt(m, ctx);
+        if (r === undefined) {
+            const [hpc, h, w] = handle(f!);
+            return [toContravariant(fromContravariant(hpc) as GLB<Lpc, Hpc>), ctx.lattice.lub(f!.label, h) as LUB<L, H>, w];
+        }
+        const [lpc, l, pv] = r;
+        const caught = pv.then(undefined, (e) => {
+            const f_ = asFailure(e, ctx.lattice.lub(ctx.current, l), ctx.lattice);
+            if (!(f_ instanceof LabeledFailure)) return Promise.reject(f_);
+            return handle(f_)[2];
+        });
+        return [toContravariant(fromContravariant(lpc) as GLB<Lpc, Hpc>), l as LUB<L, H>, caught];
+    };
+}
+
+/**
+ * Runs m, then fin, whether m threw or not
+ * (if it did, the failure is rethrown after fin).
+ * fin runs after m has read L-data, so (as for bind) L <: Fpc.
+ */
+export function finallyLIO<
+    Lpc extends Level,
+    L extends Fpc,                  // L <: Fpc
+    V,
+    Fpc extends Level,
+    F extends Level
+>(
+    m: LIO<Lpc, L, V>,
+    fin: LIO<Fpc, F, unknown>
+): LIO<GLB<Lpc, Fpc>, LUB<L, F>, V> {
+    return (ctx) => {
+        const [r, f] = attempt(m, ctx);
+        const l: Level = r !== undefined ? r[1] : f!.label;
+        const [fpc, f_] = fin(raiseCurrent(ctx, l));
+        checkFlow(ctx, l, fromContravariant(fpc), "finallyLIO");
+        if (r === undefined) throw asFailure(f, f_, ctx.lattice);
+        const [lpc, __, v] = r;
+        const pc = ctx.lattice.glb(fromContravariant(lpc), fromContravariant(fpc));
+        return [toContravariant(pc as GLB<Lpc, Fpc>), ctx.lattice.lub(l, f_) as LUB<L, F>, v];
+    };
+}
@@ -1,7 +1,9 @@
-import {Bot, botLevel, Level, Top, topLevel} from "./lattice";
-import {Contravariant, toContravariant} from "../misc/subtyping";
-import {LIO, ret} from "./monad";
-import {label, Labeled} from "./label";
+import {AnyLattice, Bot, botLevel, Level, Powerset, Top} from "./lattice";
+import {Contravariant, fromContravariant, toContravariant} from "../misc/subtyping";
+import {LIO, LIOContext, LIOResult, ret} from "./monad";
+import {labelIn, Labeled} from "./label";
+import {asFailure, checkFlow, RequireFlow} from "./enforcement";
+import {AnyDC, DCBot, dcInput, DCLabeled, DCLIO, dcOutput, dcSnk, DCSnk, dcSrc, DCSrc, DCTop, hasDCLabel, isDC, RequireDCFlow} from "./dc-label";
 
 /**
  * Here we provide types & primitives to create sources and sinks,
@@ -9,7 +11,8 @@ import {label, Labeled} from "./label";
  * the idea is that the programmer must create sources and sinks,
  * and then use them in the monad.
  * why: there are so many libraries for doing I/O; we cannot
- * possibly support them all. we can support e.g. files & sockets.
+ * possibly support them all. we can support e.g. files & sockets
+ * (files: see io-fs.ts; sockets: io-net.ts; http servers: io-http.ts).
  * for anything beyond that, we provide these constructs so that
  * the user of our library can themselves define the sources and
  * sinks.
@@ -21,18 +24,26 @@ export type Reader<I> = () => Promise<I>;
 /** Async writer that accepts a value and returns a Promise */
 export type Writer<O> = (o: O) => Promise<void>;
 
-/** Async source with baked-in Promise handling */
-export type Src<L extends Level, I> = [L, Reader<I>];
+/** Async source with baked-in Promise handling (its level is in lattice Lat) */
+export type Src<L extends Level, I, Lat extends AnyLattice = Powerset> = [L, Reader<I>, Lat?];
 
-/** Async sink with baked-in Promise handling */
-export type Snk<L extends Level, O> = [Contravariant<L>, Writer<O>];
+/** Async sink with baked-in Promise handling (its level is in lattice Lat) */
+export type Snk<L extends Level, O, Lat extends AnyLattice = Powerset> = [Contravariant<L>, Writer<O>, Lat?];
 
-export function src<L extends Level, I>(l: L, r: Reader<I>): Src<L, I> {
-    return [l, r];
+export function src<L extends Level, I>(l: L, r: Reader<I>): Src<L, I>;
+export function src<L extends Level, I, Lat extends AnyLattice>(l: L, r: Reader<I>, lattice: Lat): Src<L, I, Lat>;
+/** A source with a DC label (see dc-label.ts). */
+export function src<L extends AnyDC, I>(l: L, r: Reader<I>): DCSrc<L, I>;
+export function src<L extends Level, D extends AnyDC, I, Lat extends AnyLattice>(l: L | D, r: Reader<I>, lattice?: Lat): Src<L, I, Lat> | DCSrc<D, I> {
+    return isDC(l) ? dcSrc(l, r) : [l, r, lattice];
 }
 
-export function snk<L extends Level, O>(l: L, w: Writer<O>): Snk<L, O> {
-    return [toContravariant(l), w];
+export function snk<L extends Level, O>(l: L, w: Writer<O>): Snk<L, O>;
+export function snk<L extends Level, O, Lat extends AnyLattice>(l: L, w: Writer<O>, lattice: Lat): Snk<L, O, Lat>;
+/** A sink with a DC label (see dc-label.ts). */
+export function snk<L extends AnyDC, O>(l: L, w: Writer<O>): DCSnk<L, O>;
+export function snk<L extends Level, D extends AnyDC, O, Lat extends AnyLattice>(l: L | D, w: Writer<O>, lattice?: Lat): Snk<L, O, Lat> | DCSnk<D, O> {
+    return isDC(l) ? dcSnk(l, w) : [toContravariant(l), w, lattice];
 }
 
 /**
@@ -41,30 +52,62 @@ export function snk<L extends Level, O>(l: L, w: Writer<O>): Snk<L, O> {
  *
  * The value type is Promise<Labeled<L, I>>, ensuring the label stays attached
  * even after the promise resolves.
+ * If the read fails, the promise rejects with a LabeledFailure (labeled at least L).
+ * In dynamic mode, sources above the clearance are rejected (before reading).
  */
-export function input<L extends Level, I>([l, r]: Src<L, I>): LIO<Top, Bot, Promise<Labeled<L, I>>> {
+export function input<L extends Level, I, Lat extends AnyLattice = Powerset>(
+    s: Src<L, I, Lat>
+): LIO<Top, Bot, Promise<Labeled<L, I, Lat>>, Lat>;
+/** Read from a DC-labeled source (see dc-label.ts). */
+export function input<L extends AnyDC, I>(s: DCSrc<L, I>): DCLIO<DCTop, DCBot, Promise<DCLabeled<L, I>>>;
+export function input<L extends Level, D extends AnyDC, I, Lat extends AnyLattice>(
+    s: Src<L, I, Lat> | DCSrc<D, I>
+): LIO<Top, Bot, Promise<Labeled<L, I, Lat>>, Lat> | DCLIO<DCTop, DCBot, Promise<DCLabeled<D, I>>> {
+    if (hasDCLabel(s)) return dcInput(s);
+    const [l, r] = s;
     // r() returns Promise<I>
     // We transform it to Promise<Labeled<L, I>>
-    const labeledPromise = r().then(i => label(l, i));
-    return ret(labeledPromise);
+    // (r is only called when the computation runs)
+    return (ctx: LIOContext<Lat>) => {
+        checkFlow(ctx, l, ctx.clearance, "input");
+        const current = ctx.lattice.lub(ctx.current, l);
+        const labeledPromise = r().then(i => labelIn(ctx.lattice, l, i), e => Promise.reject(asFailure(e, current, ctx.lattice)));
+        return ret(labeledPromise)(ctx);
+    };
 }
 
 /**
  * Write to an async sink.
- * Enforces at compile-time that Ldata can flow to Lsink.
+ * Enforces at compile-time that Ldata can flow to Lsink
+ * (Ldata is the label of the value written; see FlowViolation)
+ * (and, in dynamic mode, also at runtime, before writing;
+ * there, the current label must flow to Lsink too).
  *
  * Returns a function that takes a Labeled value and produces an LIO computation.
  * The computation writes the value and resolves to null.
+ * If the write fails, the promise rejects with a LabeledFailure.
  */
-export function output<Lsink extends Level, Ldata extends Lsink, O>(
-    [lo, w]: Snk<Lsink, O>
-): (lv: Labeled<Ldata, O>) => LIO<Lsink, Bot, Promise<null>> {
-    return (lv: Labeled<Ldata, O>) => {
+export function output<Lsink extends Level, O, Lat extends AnyLattice = Powerset>(
+    s: Snk<Lsink, O, Lat>
+): <Ldata extends Level>(lv: Labeled<Ldata, O, Lat> & RequireFlow<Ldata, Lsink>) => LIO<Lsink, Bot, Promise<null>, Lat>;
+/** Write to a DC-labeled sink (see dc-label.ts). */
+export function output<Lsink extends AnyDC, O>(
+    s: DCSnk<Lsink, O>
+): <Ldata extends AnyDC>(lv: DCLabeled<Ldata, O> & RequireDCFlow<Ldata, Lsink>) => DCLIO<Lsink, DCBot, Promise<null>>;
+export function output<Lsink extends Level, D extends AnyDC, O, Lat extends AnyLattice>(
+    s: Snk<Lsink, O, Lat> | DCSnk<D, O>
+): (<Ldata extends Level>(lv: Labeled<Ldata, O, Lat>) => LIO<Lsink, Bot, Promise<null>, Lat>)
+    | (<Ldata extends AnyDC>(lv: DCLabeled<Ldata, O> & RequireDCFlow<Ldata, D>) => DCLIO<D, DCBot, Promise<null>>) {
+    if (hasDCLabel(s)) return dcOutput(s);
+    const [lo, w] = s;
+    return <Ldata extends Level>(lv: Labeled<Ldata, O, Lat>) => (ctx: LIOContext<Lat>): LIOResult<Lsink, Bot, Promise<null>> => {
+        const current = ctx.lattice.lub(ctx.current, lv.getLabel());
+        checkFlow(ctx, current, fromContravariant(lo), "output");
         // Use closure-based API
         const o = lv.unsafeGetValue();
         // w() returns Promise<void>
         // We transform it to Promise<null> for consistency
-        const writePromise = w(o).then(() => null);
-        return ret(writePromise);
+        const writePromise = w(o).then(() => null, e => Promise.reject(asFailure(e, current, ctx.lattice)));
+        return [lo, botLevel, writePromise];
     };
 }
\ No newline at end of file
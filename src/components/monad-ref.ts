@@ -0,0 +1,97 @@
+import {Bot, botLevel, Level, Top, topLevel} from "./lattice";
+import {Invariant, toContravariant} from "../misc/subtyping";
+import {LIO} from "./monad";
+import {checkFlow} from "./enforcement";
+
+// LABELED_REFERENCES______________________________________
+
+// Ref<L,V> : L cannot be fiddled with.
+// a reference is both a source and a sink, so we can neither
+// up-classify it (that's only sound for sources) nor down-classify
+// it (that's only sound for sinks). so its label is invariant.
+// likewise, the value type is invariant (read & write).
+// (follows LIORef of Haskell's LIO library.)
+
+/** A mutable reference, labeled L, holding a V. */
+export type LIORef<L extends Level, V> = {
+    /** Get the label (safe operation) */
+    getLabel(): L;
+
+    /** WARNING: Unsafe operation that reads the value, bypassing information flow control. */
+    unsafeRead(): V;
+
+    /**
+     * WARNING: Unsafe operation that writes the value, bypassing information flow control.
+     * (a property, not a method, so that V is checked contravariantly here.)
+     */
+    readonly unsafeWrite: (v: V) => void;
+
+    /** type-level only (never set); makes the reference invariant in L. */
+    readonly invariant?: Invariant<L>;
+}
+
+/**
+ * Creates a reference labeled l, holding v.
+ * Creating is writing at l, so the PC-level is l.
+ * (each run of the computation creates a fresh reference.)
+ */
+export function newLIORef<L extends Level, V>(l: L, v: V): LIO<L, Bot, LIORef<L, V>> {
+    return (ctx) => {
+        checkFlow(ctx, ctx.current, l, "newLIORef");
+        // captured in the closure, like Labeled.
+        const privateLabel: L = l;
+        let privateValue: V = v;
+
+        const ref: LIORef<L, V> = {
+            getLabel(): L {
+                return privateLabel;
+            },
+
+            unsafeRead(): V {
+                return privateValue;
+            },
+
+            unsafeWrite: (v: V): void => {
+                privateValue = v;
+            }
+        };
+        return [toContravariant(l), botLevel, ref];
+    };
+}
+
+/**
+ * Reads a reference. Raises the data-level to the label of the reference.
+ * In dynamic mode, rejects references labeled above the clearance.
+ */
+export function readLIORef<L extends Level, V>(ref: LIORef<L, V>): LIO<Top, L, V> {
+    return (ctx) => {
+        const l = ref.getLabel();
+        checkFlow(ctx, l, ctx.clearance, "readLIORef");
+        return [toContravariant(topLevel), l, ref.unsafeRead()];
+    };
+}
+
+/**
+ * Writes a reference. The PC-level is the label of the reference,
+ * so bind requires the data-level (and, transitively, the PC)
+ * of everything this depends on to flow to that label.
+ * In dynamic mode, the current label must flow to it, before writing.
+ */
+export function writeLIORef<L extends Level, V>(ref: LIORef<L, V>, v: V): LIO<L, Bot, null> {
+    return (ctx) => {
+        const l = ref.getLabel();
+        checkFlow(ctx, ctx.current, l, "writeLIORef");
+        ref.unsafeWrite(v);
+        return [toContravariant(l), botLevel, null];
+    };
+}
+
+/** Reads, then writes, a reference. */
+export function modifyLIORef<L extends Level, V>(ref: LIORef<L, V>, f: (v: V) => V): LIO<L, L, null> {
+    return (ctx) => {
+        const l = ref.getLabel();
+        checkFlow(ctx, ctx.current, l, "modifyLIORef");
+        ref.unsafeWrite(f(ref.unsafeRead()));
+        return [toContravariant(l), l, null];
+    };
+}
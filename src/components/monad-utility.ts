@@ -1,20 +1,24 @@
 import {Level} from "./lattice";
-import {LIO, ret} from "./monad";
+import {LIO} from "./monad";
 import {fromContravariant, toContravariant} from "../misc/subtyping";
+import {checkFlow, RequireFlow} from "./enforcement";
 
 /** A utility function to manually up-classify data.
  * These are not required to use! (since subtyping the monad works as intended).
  * However, they are useful for debugging.
  */
 export function upData<
-    Lpc extends Level, L extends L_, L_ extends Level, V
+    Lpc extends Level, L extends Level, L_ extends Level, V
 >(
     l_: L_,
-    m: LIO<Lpc, L, V>
+    m: LIO<Lpc, L, V> & RequireFlow<L, L_>   // L <: L_
 ):
     LIO<Lpc, L_, V> {
-    const [lpc, l, v] = m
-    return [lpc, l_, v]
+    return (ctx) => {
+        const [lpc, l, v] = m(ctx)
+        checkFlow(ctx, l, l_, "upData")
+        return [lpc, l_, v]
+    }
 }
 
 /** A utility function to manually down-classify pc.
@@ -22,24 +26,31 @@ export function upData<
  * However, they are useful for debugging.
  */
 export function downPC<
-    Lpc_ extends Lpc, Lpc extends Level, L extends Level, V
+    Lpc_ extends Level, Lpc extends Level, L extends Level, V
 >(
     lpc_: Lpc_,
-    m: LIO<Lpc, L, V>
+    m: LIO<Lpc, L, V> & RequireFlow<Lpc_, Lpc>   // Lpc_ <: Lpc
 ):
     LIO<Lpc_, L, V> {
-    const [lpc, l, v] = m
-    return [toContravariant(lpc_), l, v]
+    return (ctx) => {
+        const [lpc, l, v] = m(ctx)
+        checkFlow(ctx, lpc_, fromContravariant(lpc), "downPC")
+        return [toContravariant(lpc_), l, v]
+    }
 }
 
-/** A quality of life function that gets the PC-level of the monad. */
+/** A quality of life function that gets the PC-level of the monad (by running it). */
 export function levelOfPC<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, V>): LIO<Lpc, L, Lpc> {
-    const [lpc, l, v] = m;
-    return ret(fromContravariant(lpc));
+    return (ctx) => {
+        const [lpc, l, v] = m(ctx);
+        return [lpc, l, fromContravariant(lpc)];
+    };
 }
 
-/** A quality of life function that gets the data-level of the monad. */
+/** A quality of life function that gets the data-level of the monad (by running it). */
 export function levelOfData<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, V>): LIO<Lpc, L, L> {
-    const [lpc, l, v] = m;
-    return ret(l);
+    return (ctx) => {
+        const [lpc, l, v] = m(ctx);
+        return [lpc, l, l];
+    };
 }
\ No newline at end of file
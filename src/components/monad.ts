@@ -1,6 +1,8 @@
-import { Bot, botLevel, GLB, Level, LUB, Top, topLevel } from "./lattice";
-import { Contravariant, toContravariant } from "../misc/subtyping";
-import { label, Labeled } from "./label";
+import { AnyLattice, Bot, botLevel, EnforcementMode, GLB, Level, LUB, powerset, Powerset, Top, topLevel } from "./lattice";
+import { Contravariant, fromContravariant, toContravariant } from "../misc/subtyping";
+import { labelIn, Labeled, readSecrets, readsSoFar, withReads } from "./label";
+import { asFailure, checkFlow, LabeledFailure, RequireFlow } from "./enforcement";
+import { AnyDC, dcBind, DCContext, DCGLB, DCLabeled, DCLIO, DCLUB, DCTop, dcUnLabel, isDCContext, isDCLabeled, RequireDCFlow } from "./dc-label";
 
 // LIO_MONAD_______________________________________________
 
@@ -26,19 +28,82 @@ import { label, Labeled } from "./label";
 //type LIO<Lpc extends Level, L extends Level, V> = [Lpc, L, V]
 //type LIOdg<Lpc extends Level, L extends Level, V> = true extends true ?  (x : Lpc) => [L, V]  :  (x : Lpc) => [L, V]
 
-/** Labeled-I-O, our Monad type. */
-export type LIO<Lpc extends Level, L extends Level, V> = [Contravariant<Lpc>, L, V];
+// LIO is a deferred computation: nothing happens until it is run
+// (see runLIO). running it yields the PC-level, the data-level and
+// the value. the function type is covariant in its result, so the
+// subtyping of the levels is exactly as for the tuple.
+// the context carries the current label: the lub of the data-levels
+// of everything the computation has read so far. it is only used
+// in dynamic mode, where sinks check it before writing.
+// it also carries the clearance: the most the current label may
+// rise to (see withClearance), and the enforcement mode and the
+// lattice the computation was run in (see runLIO).
+
+/** What an LIO computation runs in: levels are in lattice Lat. */
+export type LIOContext<Lat extends AnyLattice = Powerset> = {
+    /** The lub of the data-levels read so far. */
+    readonly current: Level;
+    /** An upper bound on the current label. */
+    readonly clearance: Level;
+    /** Whether flows are also checked at runtime. */
+    readonly mode: EnforcementMode;
+    /** The lattice the levels are in. */
+    readonly lattice: Lat;
+}
+
+/** The result of running an LIO computation. */
+export type LIOResult<Lpc extends Level, L extends Level, V> = [Contravariant<Lpc>, L, V];
+
+/**
+ * Labeled-I-O, our Monad type, with levels in lattice Lat.
+ * (a computation that works in any lattice, e.g. ret's, has Lat = AnyLattice.)
+ */
+export type LIO<Lpc extends Level, L extends Level, V, Lat extends AnyLattice = Powerset> =
+    (ctx: LIOContext<Lat>) => LIOResult<Lpc, L, V>;
+
+/** The context a computation starts in. */
+export const initialContext: LIOContext = {current: botLevel, clearance: topLevel, mode: "static", lattice: powerset};
+
+/**
+ * The context after reading data at level l.
+ * In dynamic mode, checks that l is below the clearance.
+ */
+export function raiseCurrent<Lat extends AnyLattice>(ctx: LIOContext<Lat>, l: Level): LIOContext<Lat> {
+    checkFlow(ctx, l, ctx.clearance, "clearance")
+    return {...ctx, current: ctx.lattice.lub(ctx.current, l)};
+}
 
 // Our unlabel statement.
 // typically, given Labeled<L,V>, the return type is LIO<PC, L, V> for any PC.
 // instead, I make the type be the strongest guarantee, and will use
 // subtyping to weaken this guarantee where needed.
 
-/** Unlabel a labeled statement. */
-export function unLabel<L extends Level, V>(lv: Labeled<L, V>): LIO<Top, L, V> {
-    const l = lv.getLabel();
-    const v = lv.unsafeGetValue();
-    return [toContravariant(topLevel), l, v]
+/** Unlabel a DC-labeled value (see dc-label.ts). */
+export function unLabel<L extends AnyDC, V>(lv: DCLabeled<L, V>): DCLIO<DCTop, L, V>;
+/**
+ * Unlabel a labeled statement.
+ * In dynamic mode, rejects labels that are not levels (e.g. from untyped data),
+ * and labels above the clearance.
+ * A box made by toLabeled of a computation that failed rethrows the failure
+ * (raised to the box's label).
+ */
+export function unLabel<L extends Level, V, Lat extends AnyLattice = Powerset>(lv: Labeled<L, V, Lat>): LIO<Top, L, V, Lat>;
+export function unLabel<L extends Level, D extends AnyDC, V, Lat extends AnyLattice>(
+    lv: Labeled<L, V, Lat> | DCLabeled<D, V>
+): LIO<Top, L, V, Lat> | DCLIO<DCTop, D, V> {
+    if (isDCLabeled(lv)) return dcUnLabel(lv)
+    return (ctx: LIOContext<Lat>): LIOResult<Top, L, V> => {
+        const l = lv.getLabel();
+        checkFlow(ctx, l, ctx.clearance, "unLabel")
+        let v: V;
+        try {
+            v = lv.unsafeGetValue();
+        } catch (e) {
+            throw asFailure(e, ctx.lattice.lub(ctx.current, l), ctx.lattice)
+        }
+        readSecrets(lv)
+        return [toContravariant(topLevel), l, v]
+    }
 }
 
 // Type for our ret statement.
@@ -46,27 +111,77 @@ export function unLabel<L extends Level, V>(lv: Labeled<L, V>): LIO<Top, L, V> {
 // instead, I make the type be the strongest guarantee, and will use
 // subtyping to weaken this guarantee where needed.
 
-/** Return a value. */
-export function ret<V>(v: V): LIO<Top, Bot, V> {
-    return [toContravariant(topLevel), botLevel, v]
+/** Return a value (in any lattice). */
+export function ret<V>(v: V): LIO<Top, Bot, V, AnyLattice> {
+    return () => [toContravariant(topLevel), botLevel, v]
 }
 
-/** The bind statement */
+/** The bind statement over DC labels (see dc-label.ts). */
+export function bind<
+    PC1 extends AnyDC, L1 extends AnyDC, V,
+    PC2 extends AnyDC, L2 extends AnyDC, W
+>(
+    m: DCLIO<PC1, L1, V>,
+    f: (v: V) => DCLIO<PC2, L2, W> & RequireDCFlow<L1, PC2>
+): DCLIO<DCGLB<PC1, PC2>, DCLUB<L1, L2>, W>;
+/**
+ * The bind statement.
+ * In dynamic mode, checks L <: Rpc at runtime.
+ * (f's computation runs with the current label raised to L, so its
+ * sinks reject L-data before writing; the final check covers the rest.)
+ * Anything thrown is rethrown as a LabeledFailure, labeled with the current label.
+ */
 export function bind<
     Lpc extends Level,
-    L extends Rpc,                // L <: Rpc
+    L extends Level,
     V,
     Rpc extends Level,
     R extends Level,
-    W
+    W,
+    Lat extends AnyLattice = Powerset
 >(
-    m: LIO<Lpc, L, V>,
-    f: (_: V) => LIO<Rpc, R, W>
+    m: LIO<Lpc, L, V, Lat>,
+    f: (_: V) => LIO<Rpc, R, W, Lat> & RequireFlow<L, Rpc>   // L <: Rpc
 ):
-    LIO<GLB<Lpc, Rpc>, LUB<L, R>, W> // Zpc <: Lpc , Zpc <: Rpc , L <: Z , R <: Z
-{
-    const [lpc, l, v] = m
-    return f(v)
+    LIO<GLB<Lpc, Rpc>, LUB<L, R>, W, Lat>; // Zpc <: Lpc , Zpc <: Rpc , L <: Z , R <: Z
+export function bind<
+    Lpc extends Level, L extends Level, V, Rpc extends Level, R extends Level, W, Lat extends AnyLattice,
+    PC1 extends AnyDC, L1 extends AnyDC, PC2 extends AnyDC, L2 extends AnyDC
+>(
+    m: LIO<Lpc, L, V, Lat> | DCLIO<PC1, L1, V>,
+    f: (_: V) => LIO<Rpc, R, W, Lat> | DCLIO<PC2, L2, W>
+): LIO<GLB<Lpc, Rpc>, LUB<L, R>, W, Lat> | DCLIO<DCGLB<PC1, PC2>, DCLUB<L1, L2>, W> {
+    // which one m is shows only in the context it runs in, so the
+    // computation is either one (whichever the overload said it is).
+    const run = (ctx: LIOContext<Lat> | DCContext) => isDCContext(ctx)
+        ? dcBind(m as DCLIO<PC1, L1, V>, f as (v: V) => DCLIO<PC2, L2, W> & RequireDCFlow<L1, PC2>)(ctx)
+        : bindLIO(m as LIO<Lpc, L, V, Lat>, f as (_: V) => LIO<Rpc, R, W, Lat>)(ctx)
+    return run as LIO<GLB<Lpc, Rpc>, LUB<L, R>, W, Lat>
+}
+
+// bind, over levels.
+function bindLIO<Lpc extends Level, L extends Level, V, Rpc extends Level, R extends Level, W, Lat extends AnyLattice>(
+    m: LIO<Lpc, L, V, Lat>,
+    f: (_: V) => LIO<Rpc, R, W, Lat>
+): LIO<GLB<Lpc, Rpc>, LUB<L, R>, W, Lat> {
+    return (ctx) => {
+        const [lpc, l, v] = guard(m, ctx)
+        const [rpc, r, w] = guard((c) => f(v)(c), raiseCurrent(ctx, l))
+        checkFlow(ctx, l, fromContravariant(rpc), "bind")
+        return [toContravariant(ctx.lattice.glb(fromContravariant(lpc), fromContravariant(rpc))), ctx.lattice.lub(l, r), w]
+    }
+}
+
+// runs m in ctx; anything it throws comes out labeled.
+function guard<Lpc extends Level, L extends Level, V, Lat extends AnyLattice>(
+    m: LIO<Lpc, L, V, Lat>,
+    ctx: LIOContext<Lat>
+): LIOResult<Lpc, L, V> {
+    try {
+        return m(ctx)
+    } catch (e) {
+        throw asFailure(e, ctx.current, ctx.lattice)
+    }
 }
 
 /**
@@ -74,29 +189,41 @@ export function bind<
  *
  * Allows chaining async I/O operations without forcing developers to manually 
  * handle promises outside the monad.
+ * A rejection (of either promise) becomes a LabeledFailure, labeled with the current label.
+ * At runtime, the levels returned are m's: f's are only known once it runs.
  */
 export function bindAsync<
     Lpc extends Level,
-    L extends Rpc,
+    L extends Level,
     V,
     Rpc extends Level,
     R extends Level,
-    W
+    W,
+    Lat extends AnyLattice = Powerset
 >(
-    m: LIO<Lpc, L, Promise<Labeled<L, V>>>,
-    f: (lv: Labeled<L, V>) => LIO<Rpc, R, Promise<W>>
-): LIO<GLB<Lpc, Rpc>, LUB<L, R>, Promise<W>> {
-    const [lpc, l, promiseLV] = m;
+    m: LIO<Lpc, L, Promise<Labeled<L, V, Lat>>, Lat>,
+    f: (lv: Labeled<L, V, Lat>) => LIO<Rpc, R, Promise<W>, Lat> & RequireFlow<L, Rpc>   // L <: Rpc
+): LIO<GLB<Lpc, Rpc>, LUB<L, R>, Promise<W>, Lat> {
+    return (ctx) => {
+        const [lpc, l, promiseLV] = guard(m, ctx);
+        const ctx_ = raiseCurrent(ctx, l);
+        // f is the rest of this computation: it has read what this one has.
+        const reads = readsSoFar();
 
-    // Chain the promises: when the input promise resolves,
-    // pass the labeled value to f, then extract the result promise
-    const resultPromise = promiseLV.then((labeledValue) => {
-        const [_, __, promiseW] = f(labeledValue);
-        return promiseW;
-    });
+        // Chain the promises: when the input promise resolves,
+        // run f on the labeled value, then extract the result promise
+        const resultPromise = promiseLV.then((labeledValue) => {
+            const [rpc, __, promiseW] = withReads(() => f(labeledValue)(ctx_), reads);
+            checkFlow(ctx, l, fromContravariant(rpc), "bindAsync");
+            return promiseW;
+        }).then(undefined, (e) => Promise.reject(asFailure(e, ctx_.current, ctx.lattice)));
 
-    // Combine PC labels (GLB) and data labels (LUB)
-    return [toContravariant(topLevel as any), l, resultPromise] as LIO<GLB<Lpc, Rpc>, LUB<L, R>, Promise<W>>;
+        // f only runs once the input resolves, so its levels are not known
+        // yet: the levels returned are m's (as in catchAsyncLIO). f's part
+        // is checked when it runs: L <: Rpc above, and its sinks see the
+        // current label raised to L.
+        return [toContravariant(fromContravariant(lpc) as GLB<Lpc, Rpc>), l as LUB<L, R>, resultPromise];
+    };
 }
 // while TypeScript can check that A <: B,
 // TypeScript cannot "magically" find a B
@@ -112,6 +239,9 @@ export function bindAsync<
 // type constructors).
 // now the only way to get a type error when attempting
 // to construct a bind, is if L <: Rpc does not hold.
+// (that is checked on f's result rather than as a constraint
+// on L, so that the error names the levels: see FlowViolation
+// in enforcement.ts.)
 
 /**
  * if you have data in the monad,
@@ -122,19 +252,140 @@ export function bindAsync<
  * to the box (i.e. the data-level).
  * the pc does not go away; it might forbid
  * writing this boxed value in a "next step".
+ * (m runs in its own context; what it reads
+ * does not raise the current label after it.)
+ * if m fails, toLabeled does not: that m failed
+ * may depend on what m read, so the failure is
+ * boxed instead (with its label, as in Haskell's
+ * LIO), and rethrown by unLabel.
  */
 export function toLabeled<
     PC extends Level,
     L extends Level,
-    V
->(m: LIO<PC, L, V>
-): LIO<PC, Bot, Labeled<L, V>> {
-    const [pc, l, v] = m
-    return [pc, botLevel, label(l, v)]
+    V,
+    Lat extends AnyLattice = Powerset
+>(m: LIO<PC, L, V, Lat>
+): LIO<PC, Bot, Labeled<L, V, Lat>, Lat> {
+    // what m reads is tracked on its own (the box is made from it).
+    return (ctx) => withReads((): LIOResult<PC, Bot, Labeled<L, V, Lat>> => {
+        let r: LIOResult<PC, L, V>
+        try {
+            r = m(ctx)
+        } catch (e) {
+            const f = asFailure(e, ctx.current, ctx.lattice)
+            if (!(f instanceof LabeledFailure)) throw f
+            // how far m got is not known: its writes were checked as they happened.
+            return [toContravariant(topLevel as PC), botLevel, failedIn<L, V, Lat>(ctx.lattice, f)]
+        }
+        const [pc, l, v] = r
+        return [pc, botLevel, labelIn(ctx.lattice, l, v)]
+    })
+}
+
+// the box of a failure, labeled with it: there is no value, so getting it rethrows.
+function failedIn<L extends Level, V, Lat extends AnyLattice>(lattice: Lat, f: LabeledFailure): Labeled<L, V, Lat> {
+    return {
+        getLabel: () => f.label as L,
+        getLattice: () => lattice,
+        unsafeGetValue: () => {
+            throw f
+        }
+    }
+}
+
+/** How to run a computation, whose levels are in lattice Lat. */
+export type RunOptions<Lat extends AnyLattice = Powerset> = {
+    /** Default: "static". */
+    readonly mode?: EnforcementMode;
+    /** Default: the powerset lattice (so it must be given for other lattices). */
+    readonly lattice?: Lat;
+}
+
+// the context a run starts in. without a lattice option, Lat is
+// the powerset lattice (see the overloads of runLIO).
+function runContext<Lat extends AnyLattice>(options: RunOptions<Lat>): LIOContext<Lat> {
+    const lattice = options.lattice ?? powerset as AnyLattice as Lat
+    return {...initialContext, mode: options.mode ?? initialContext.mode, lattice}
+}
+
+/**
+ * Runs a computation, performing its effects (in the order bind sequences them).
+ * The value comes out labeled with the data-level of the computation.
+ */
+export function runLIO<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, V>, options?: RunOptions): Labeled<L, V>;
+/** Runs a computation in lattice Lat (see above). */
+export function runLIO<Lpc extends Level, L extends Level, V, Lat extends AnyLattice>(
+    m: LIO<Lpc, L, V, Lat>,
+    options: RunOptions<Lat> & { readonly lattice: Lat }
+): Labeled<L, V, Lat>;
+export function runLIO<Lpc extends Level, L extends Level, V, Lat extends AnyLattice>(
+    m: LIO<Lpc, L, V, Lat>,
+    options: RunOptions<Lat> = {}
+): Labeled<L, V, Lat> {
+    const ctx = runContext(options)
+    return withReads(() => {
+        const [lpc, l, v] = m(ctx)
+        return labelIn(ctx.lattice, l, v)
+    })
 }
 
-/** Gets a value out of the monad. WARNING: this is unsafe! */
-export function unsafe_runLIO<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, V>): V {
-    const [lpc, l, v] = m
-    return v
+/** Runs a computation and gets its value out of the monad. WARNING: this is unsafe! */
+export function unsafe_runLIO<Lpc extends Level, L extends Level, V>(m: LIO<Lpc, L, V>, options?: RunOptions): V;
+/** Runs a computation in lattice Lat and gets its value out of the monad. WARNING: this is unsafe! */
+export function unsafe_runLIO<Lpc extends Level, L extends Level, V, Lat extends AnyLattice>(
+    m: LIO<Lpc, L, V, Lat>,
+    options: RunOptions<Lat> & { readonly lattice: Lat }
+): V;
+export function unsafe_runLIO<Lpc extends Level, L extends Level, V, Lat extends AnyLattice>(
+    m: LIO<Lpc, L, V, Lat>,
+    options: RunOptions<Lat> = {}
+): V {
+    return withReads(() => m(runContext(options))[2])
+}
+
+// CLEARANCE_______________________________________________
+
+// the clearance caps what a computation may read (follows
+// Haskell's LIO library): no unLabel or input above it.
+// statically, the data-level of a computation is the lub of what
+// it read, so it is enough to require L <: C. (what a computation
+// reads inside toLabeled is boxed instead; in dynamic mode, that
+// is checked too, as every read is checked against the clearance.)
+// input does not raise the data-level (its value is a promised
+// labeled value), so its label is checked on the value type.
+
+// the label of what an input promises, if V is one.
+type InputLabel<V> = V extends Promise<Labeled<infer L, unknown, AnyLattice>> ? L : never;
+
+
+/**
+ * Runs m with clearance c (a sub-computation, e.g. plugin code, can
+ * read nothing above c). The clearance can only be lowered: in
+ * dynamic mode, the clearance inside is the glb of c and the one outside,
+ * and the current label must already be below c.
+ */
+export function withClearance<C extends Level, Lpc extends Level, L extends C, V, Lat extends AnyLattice = Powerset>(
+    c: C,
+    m: LIO<Lpc, L, V, Lat> & RequireFlow<InputLabel<V>, C, "above clearance">
+): LIO<Lpc, L, V, Lat> {
+    return (ctx) => {
+        checkFlow(ctx, ctx.current, c, "withClearance")
+        return m({...ctx, clearance: ctx.lattice.glb(ctx.clearance, c)})
+    }
+}
+
+/**
+ * Runs a computation (see runLIO) with clearance c.
+ * (in the powerset lattice; in others, runLIO a withClearance.)
+ */
+export function runLIOWithClearance<C extends Level, Lpc extends Level, L extends C, V>(
+    c: C,
+    m: LIO<Lpc, L, V> & RequireFlow<InputLabel<V>, C, "above clearance">,
+    options: RunOptions = {}
+): Labeled<L, V> {
+    const ctx = runContext(options)
+    return withReads(() => {
+        const [lpc, l, v] = m({...ctx, clearance: c})
+        return labelIn(ctx.lattice, l, v)
+    })
 }
@@ -0,0 +1,186 @@
+import {Bot, Level, leq, showLevel} from "./lattice";
+import {LIO, RunOptions, unsafe_runLIO} from "./monad";
+import {Snk, Src} from "./monad-io";
+import {memorySnk, MemorySnk, memorySrc} from "./io-memory";
+
+// NONINTERFERENCE_TESTING_________________________________
+
+// noninterference: an observer at level O cannot tell apart two
+// runs that differ only in inputs O may not see. we test it:
+// run a program twice on in-memory sources, where the sources
+// at or below O yield the same values and the others yield
+// (likely) different ones, and compare what the sinks at or
+// below O were written. a difference is a counterexample.
+// inputs are generated from a seed, so a counterexample can be
+// replayed. (a run that fails is not compared: we test
+// termination-insensitive noninterference.)
+
+/** A seeded pseudo-random number generator. */
+export type Rng = {
+    /** A number in [0, 1). */
+    next(): number;
+    /** An integer in [min, max]. */
+    int(min: number, max: number): number;
+    /** One of xs. */
+    pick<T>(xs: readonly T[]): T;
+}
+
+/** Makes a generator from a seed (mulberry32). */
+export function rngFrom(seed: number): Rng {
+    let s = seed >>> 0;
+    const next = (): number => {
+        s = (s + 0x6D2B79F5) >>> 0;
+        let t = s;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1));
+    return {next, int, pick: (xs) => xs[int(0, xs.length - 1)]};
+}
+
+// a seed from a few numbers and names (FNV-1a).
+function mix(...xs: (number | string)[]): number {
+    let h = 0x811C9DC5;
+    const s = xs.join(":");
+    for (let i = 0; i < s.length; i++) {
+        h = Math.imul(h ^ s.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return h;
+}
+
+/** An in-memory source: labeled L, each read yields a generated V. */
+export type SourceSpec<L extends Level, V> = {
+    readonly label: L;
+    readonly generate: (rng: Rng) => V;
+}
+
+/** The sources of a program, by name. */
+export type SourceSpecs = { readonly [name: string]: SourceSpec<Level, unknown> };
+
+/** The sinks of a program (their labels), by name. */
+export type SinkSpecs = { readonly [name: string]: Level };
+
+/** The sources a program gets. */
+export type SourcesOf<S extends SourceSpecs> =
+    { readonly [K in keyof S]: S[K] extends SourceSpec<infer L, infer V> ? Src<L, V> : never };
+
+/** The sinks a program gets. */
+export type SinksOf<K extends SinkSpecs> = { readonly [N in keyof K]: Snk<K[N], unknown> };
+
+/** What to test. */
+export type NoninterferenceSpec<O extends Level, S extends SourceSpecs, K extends SinkSpecs> = {
+    readonly observer: O;
+    readonly sources: S;
+    readonly sinks: K;
+    /** The program, on the harness' sources and sinks. */
+    readonly program: (sources: SourcesOf<S>, sinks: SinksOf<K>) => LIO<Bot, Level, unknown>;
+    /** How many pairs of runs (default: 100). */
+    readonly trials?: number;
+    /** Where to start (default: 0); trial i uses seed + i. */
+    readonly seed?: number;
+    /** How to run the program (see runLIO). */
+    readonly run?: RunOptions;
+}
+
+/** Two runs an observer can tell apart. */
+export type Counterexample = {
+    /** Replay with trials: 1 and this seed. */
+    readonly seed: number;
+    /** The sink (at or below the observer) that saw different writes. */
+    readonly sink: string;
+    readonly label: string;
+    /** The values read from each source, in each run. */
+    readonly reads: readonly [{ readonly [source: string]: unknown[] }, { readonly [source: string]: unknown[] }];
+    /** The writes to the sink, in each run. */
+    readonly writes: readonly [unknown[], unknown[]];
+}
+
+/** The outcome of a test. */
+export type NoninterferenceReport = {
+    readonly ok: boolean;
+    /** Trials where both runs completed (and so were compared). */
+    readonly compared: number;
+    readonly counterexamples: readonly Counterexample[];
+}
+
+type Run = {
+    readonly reads: { [source: string]: unknown[] };
+    readonly writes: { [sink: string]: unknown[] };
+    readonly failed: boolean;
+}
+
+async function runOnce<S extends SourceSpecs, K extends SinkSpecs>(
+    spec: NoninterferenceSpec<Level, S, K>,
+    seed: number,
+    run: 0 | 1
+): Promise<Run> {
+    const reads: { [source: string]: unknown[] } = {};
+    const sources: { [name: string]: Src<Level, unknown> } = {};
+    Object.keys(spec.sources).forEach(name => {
+        const s = spec.sources[name];
+        // sources the observer may see get the same seed in both runs.
+        const rng = rngFrom(mix(seed, name, leq(s.label, spec.observer) ? "low" : run));
+        reads[name] = [];
+        sources[name] = memorySrc(s.label, () => {
+            const v = s.generate(rng);
+            reads[name].push(v);
+            return v;
+        });
+    });
+    // the sinks are built per name, so each keeps the label of its spec.
+    const names = Object.keys(spec.sinks) as (keyof K & string)[];
+    const sinks = names.reduce((acc, name) => {
+        acc[name] = memorySnk(spec.sinks[name]);
+        return acc;
+    }, {} as { [N in keyof K]: MemorySnk<K[N], unknown> });
+    const snks = names.reduce((acc, name) => {
+        acc[name] = sinks[name].snk;
+        return acc;
+    }, {} as { -readonly [N in keyof SinksOf<K>]: SinksOf<K>[N] });
+    let failed = false;
+    try {
+        await unsafe_runLIO(spec.program(sources as SourcesOf<S>, snks), spec.run);
+    } catch (e) {
+        failed = true;
+    }
+    const writes: { [sink: string]: unknown[] } = {};
+    names.forEach(name => writes[name] = sinks[name].values());
+    return {reads, writes, failed};
+}
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Tests a program for noninterference w.r.t. an observer
+ * (runs it twice per trial; see above).
+ * Writes are compared by their JSON.
+ */
+export async function checkNoninterference<
+    O extends Level,
+    const S extends SourceSpecs,
+    const K extends SinkSpecs
+>(spec: NoninterferenceSpec<O, S, K>): Promise<NoninterferenceReport> {
+    const trials = spec.trials ?? 100;
+    const seed0 = spec.seed ?? 0;
+    const counterexamples: Counterexample[] = [];
+    let compared = 0;
+    for (let i = 0; i < trials; i++) {
+        const seed = seed0 + i;
+        const r0 = await runOnce(spec, seed, 0);
+        const r1 = await runOnce(spec, seed, 1);
+        if (r0.failed || r1.failed) continue;
+        compared++;
+        Object.keys(spec.sinks)
+            .filter(name => leq(spec.sinks[name], spec.observer))
+            .filter(name => !same(r0.writes[name], r1.writes[name]))
+            .forEach(name => counterexamples.push({
+                seed,
+                sink: name,
+                label: showLevel(spec.sinks[name]),
+                reads: [r0.reads, r1.reads],
+                writes: [r0.writes[name], r1.writes[name]]
+            }));
+    }
+    return {ok: counterexamples.length === 0, compared, counterexamples};
+}
@@ -0,0 +1,167 @@
+import {AnyLattice, Level, levelOf, powerset, Principal, principalsOf} from "./lattice";
+import {Labeled, labelIn} from "./label";
+import {LIO} from "./monad";
+import {Invariant} from "../misc/subtyping";
+import {AnyDC, DCLabel, DCLabeled, dcLabel, Formula, IntegrityOf, SecrecyOf, showDC} from "./dc-label";
+
+// PRIVILEGES______________________________________________
+
+// the only way to lower a label is with a privilege.
+// a privilege for principal P lets you
+//  - declassify: remove P from the label of data (P consents to the release), and
+//  - endorse:    vouch for data on behalf of P (DC labels only).
+// privileges are unforgeable: they can only be made by mintPrivilege,
+// which should be called in few, easy-to-review places.
+// every use of a privilege is reported to the audit logger.
+
+/** A privilege (token) for principal P. Invariant, so it cannot be widened to more principals. */
+export type Priv<P extends Principal> = {
+    readonly principal: P;
+    /** type-level only (never set); makes the privilege invariant in P. */
+    readonly brand?: Invariant<P>;
+}
+
+/** Thrown when a privilege is used that was not made by mintPrivilege. */
+export class PrivilegeError extends Error {
+    constructor(message: string) {
+        super(message);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, PrivilegeError.prototype);
+        this.name = "PrivilegeError";
+    }
+}
+
+const minted = new WeakSet<object>();
+
+/**
+ * Mints the privilege of principal p.
+ * WARNING: whoever holds the privilege can release p's data.
+ */
+export function mintPrivilege<P extends Principal>(p: P): Priv<P> {
+    const priv: Priv<P> = Object.freeze({principal: p});
+    minted.add(priv);
+    return priv;
+}
+
+function checkPriv<P extends Principal>(priv: Priv<P>): P {
+    if (typeof priv !== "object" || priv === null || !minted.has(priv)) {
+        throw new PrivilegeError("not a privilege minted by mintPrivilege");
+    }
+    return priv.principal;
+}
+
+// AUDIT_TRAIL_____________________________________________
+
+/** A record of one use of a privilege. */
+export type AuditEvent = {
+    readonly operation: "declassify" | "endorse";
+    readonly principal: Principal;
+    /** The label before, rendered. */
+    readonly from: string;
+    /** The label after, rendered. */
+    readonly to: string;
+    /** Where the privilege was used (a stack frame), if known. */
+    readonly callSite: string | undefined;
+}
+
+/** Receives audit events. */
+export type AuditLogger = (e: AuditEvent) => void;
+
+let logger: AuditLogger = () => {};
+
+/** Sets the audit logger (the default discards events). */
+export function setAuditLogger(l: AuditLogger): void {
+    logger = l;
+}
+
+// the frame of whoever called the API function that called callSite.
+function callSite(): string | undefined {
+    const stack = new Error().stack;
+    if (stack === undefined) return undefined;
+    const frames = stack.split("\n").filter(f => /^\s+at /.test(f));
+    const frame = frames[2];
+    return frame === undefined ? undefined : frame.trim().replace(/^at /, "");
+}
+
+function audit(operation: AuditEvent["operation"], principal: Principal, from: string, to: string, site: string | undefined): void {
+    logger({operation, principal, from, to, callSite: site});
+}
+
+// DECLASSIFICATION________________________________________
+
+function isLabeled(x: unknown): x is Labeled<Level, unknown> {
+    return typeof x === "object" && x !== null && typeof (x as Labeled<Level, unknown>).getLabel === "function";
+}
+
+// dropping a principal (Exclude, at the type-level) is a set
+// operation: labels of other lattices (see lattices.ts) are not
+// sets of principals, so there is nothing to drop. rather than
+// relabel in the powerset lattice, we refuse.
+function dropPrincipal(lattice: AnyLattice, l: Level, p: Principal): Level {
+    if (lattice !== powerset) {
+        throw new TypeError(`declassify: cannot drop ${p} from ${lattice.show(l)}, not a set of principals`);
+    }
+    const ps = principalsOf(l);
+    // p cannot be dropped from the full set (the result still contains everyone else)
+    if (ps === undefined) return l;
+    return levelOf(ps.filter(q => q !== p));
+}
+
+/** Removes principal P from the label of a labeled value (of the powerset lattice; throws a TypeError for others). */
+export function declassify<P extends Principal, L extends Level, V>(priv: Priv<P>, lv: Labeled<L, V>): Labeled<Exclude<L, P>, V>;
+/** Removes principal P from the data-level of a computation (audited when it runs). */
+export function declassify<P extends Principal, Lpc extends Level, L extends Level, V>(priv: Priv<P>, m: LIO<Lpc, L, V>): LIO<Lpc, Exclude<L, P>, V>;
+export function declassify<P extends Principal>(priv: Priv<P>, x: Labeled<Level, unknown> | LIO<Level, Level, unknown>): unknown {
+    const p = checkPriv(priv);
+    const site = callSite();
+    if (isLabeled(x)) {
+        const lattice = x.getLattice();
+        const l = x.getLabel();
+        const l_ = dropPrincipal(lattice, l, p);
+        audit("declassify", p, lattice.show(l), lattice.show(l_), site);
+        return labelIn(lattice, l_, x.unsafeGetValue());
+    }
+    const m: LIO<Level, Level, unknown> = (ctx) => {
+        const [lpc, l, v] = x(ctx);
+        const l_ = dropPrincipal(ctx.lattice, l, p);
+        audit("declassify", p, ctx.lattice.show(l), ctx.lattice.show(l_), site);
+        return [lpc, l_, v];
+    };
+    return m;
+}
+
+// DC_LABELS_______________________________________________
+
+// with DC labels, a privilege for P can drop any secrecy clause
+// that mentions P (P is one of the principals that may consent),
+// and can add P as a clause to the integrity (P vouches).
+
+/** Removes the clauses of F that P is a member of (type-level). */
+export type DropClauses<F extends Formula, P extends Principal> =
+    F extends readonly [infer C extends Principal, ...infer Rest extends Formula]
+        ? [P] extends [C] ? DropClauses<Rest, P> : [C, ...DropClauses<Rest, P>]
+        : [];
+
+/** Removes the secrecy clauses mentioning P from a DC-labeled value. */
+export function dcDeclassify<P extends Principal, L extends AnyDC, V>(
+    priv: Priv<P>,
+    lv: DCLabeled<L, V>
+): DCLabeled<DCLabel<DropClauses<SecrecyOf<L>, P>, IntegrityOf<L>>, V> {
+    const p = checkPriv(priv);
+    const l = lv.getLabel();
+    const l_ = {secrecy: l.secrecy.filter(c => c.indexOf(p) < 0), integrity: l.integrity};
+    audit("declassify", p, showDC(l), showDC(l_), callSite());
+    return dcLabel(l_, lv.unsafeGetValue());
+}
+
+/** Vouches for a DC-labeled value on behalf of P (adds P to the integrity). */
+export function dcEndorse<P extends Principal, L extends AnyDC, V>(
+    priv: Priv<P>,
+    lv: DCLabeled<L, V>
+): DCLabeled<DCLabel<SecrecyOf<L>, [...IntegrityOf<L>, P]>, V> {
+    const p = checkPriv(priv);
+    const l = lv.getLabel();
+    const l_ = {secrecy: l.secrecy, integrity: l.integrity.concat([[p]])};
+    audit("endorse", p, showDC(l), showDC(l_), callSite());
+    return dcLabel(l_, lv.unsafeGetValue());
+}
@@ -0,0 +1,165 @@
+import {createHmac, timingSafeEqual} from "crypto";
+import {AnyLattice, ElementOf, Level, levelOf, powerset, principalsOf} from "./lattice";
+import {Labeled, labelIn} from "./label";
+import {assertFlow, RequireFlow} from "./enforcement";
+
+// SERIALIZATION___________________________________________
+
+// a labeled value on the wire (a queue, a cache, another process)
+// is a JSON envelope {label, value}: the label travels with the value.
+// whoever reads it back must say which labels they expect; any other
+// label is rejected. the writer says which label goes on the wire:
+// the level its type gives the value (or above). that is what the
+// reader relies on; the runtime label may be below it (e.g. a value
+// typed Labeled<"Amy" | "Bob", V> may be labeled "Amy"), and is
+// checked to flow to it. as the envelope can be tampered with (e.g. its
+// label lowered), it can carry an HMAC over label and value, made
+// and checked with a key shared by writer and reader.
+
+/** How labels are written to and read from JSON. */
+export type LabelCodec = {
+    encode(l: Level): unknown;
+    /** undefined if j is not the encoding of a label. */
+    decode(j: unknown): Level | undefined;
+}
+
+// a label of the powerset lattice is a principal (a string; also
+// botLevel and topLevel) or a set of them (an array). labels of
+// linear orders are strings too; other lattices (e.g. products,
+// whose labels are pairs) bring their own codec. the reader passes
+// the lattice too: the label read must be one of its elements, and
+// the value comes back labeled in it.
+
+/** The codec for the powerset lattice (and linear orders). */
+export const levelCodec: LabelCodec = {
+    encode: (l) => {
+        const ps = principalsOf(l);
+        return ps !== undefined && ps.length > 1 ? ps : l;
+    },
+    decode: (j) => {
+        if (typeof j === "string") return j;
+        if (Array.isArray(j) && j.every(p => typeof p === "string")) return levelOf(j);
+        return undefined;
+    }
+};
+
+/** Options of serializeLabeled and deserializeLabeled. */
+export type SerializeOptions = {
+    /** Sign the envelope with (or check it against) an HMAC-SHA256 with this key. */
+    readonly key?: string | Buffer;
+    readonly codec?: LabelCodec;
+}
+
+/** Thrown when an envelope is malformed, tampered with, or has an unexpected label. */
+export class SerializationError extends Error {
+    constructor(message: string) {
+        super(message);
+        // needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, SerializationError.prototype);
+        this.name = "SerializationError";
+    }
+}
+
+type Envelope = {
+    readonly label: unknown;
+    readonly value: unknown;
+    readonly mac?: string;
+}
+
+function mac(key: string | Buffer, l: unknown, v: unknown): string {
+    return createHmac("sha256", key).update(JSON.stringify([l, v])).digest("base64");
+}
+
+/**
+ * Writes a labeled value as a JSON envelope {label, value} (and mac, with a key),
+ * labeled l: its level (or above), as the type says. Also checks that its label flows to l at runtime.
+ * The value must survive JSON.stringify.
+ */
+export function serializeLabeled<L extends Level, Lv extends Level, V>(
+    l: L,
+    lv: Labeled<Lv, V> & RequireFlow<Lv, L, "label above the level written">,
+    options: SerializeOptions = {}
+): string {
+    assertFlow(lv.getLattice(), lv.getLabel(), l, "serializeLabeled");
+    const codec = options.codec ?? levelCodec;
+    const encoded = codec.encode(l);
+    // round-trip the value, so the mac is over what the reader will see.
+    const v = JSON.parse(JSON.stringify(lv.unsafeGetValue()) ?? "null");
+    const envelope: Envelope = options.key === undefined
+        ? {label: encoded, value: v}
+        : {label: encoded, value: v, mac: mac(options.key, encoded, v)};
+    return JSON.stringify(envelope);
+}
+
+/** Options of deserializeLabeled. */
+export type DeserializeOptions<V> = SerializeOptions & {
+    readonly isValue?: (v: unknown) => v is V;
+}
+
+/**
+ * Reads a labeled value back from a JSON envelope.
+ * isLabel says which labels are expected (see labelBelow and labelOneOf);
+ * isValue, if given, checks the value.
+ * With a key, the envelope must carry a matching mac.
+ * The label must be an element of the lattice (the powerset lattice by default).
+ * Throws a SerializationError otherwise (its message never shows the value).
+ */
+export function deserializeLabeled<L extends Level, V = unknown>(
+    s: string,
+    isLabel: (l: Level) => l is L,
+    options?: DeserializeOptions<V>
+): Labeled<L, V>;
+/** Reads a labeled value, labeled in the lattice given, back from a JSON envelope. */
+export function deserializeLabeled<Lat extends AnyLattice, L extends ElementOf<Lat>, V = unknown>(
+    s: string,
+    isLabel: (l: Level) => l is L,
+    options: DeserializeOptions<V> & { readonly lattice: Lat }
+): Labeled<L, V, Lat>;
+export function deserializeLabeled<V>(
+    s: string,
+    isLabel: (l: Level) => boolean,
+    options: DeserializeOptions<V> & { readonly lattice?: AnyLattice } = {}
+): Labeled<Level, V, AnyLattice> {
+    const lattice = options.lattice ?? powerset;
+    const codec = options.codec ?? levelCodec;
+    let envelope: Envelope;
+    try {
+        envelope = JSON.parse(s);
+    } catch (e) {
+        throw new SerializationError("deserializeLabeled: not JSON");
+    }
+    if (typeof envelope !== "object" || envelope === null || !("label" in envelope) || !("value" in envelope)) {
+        throw new SerializationError("deserializeLabeled: not a labeled envelope");
+    }
+    if (options.key !== undefined) {
+        const expected = Buffer.from(mac(options.key, envelope.label, envelope.value));
+        const actual = Buffer.from(typeof envelope.mac === "string" ? envelope.mac : "");
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+            throw new SerializationError("deserializeLabeled: bad or missing mac");
+        }
+    }
+    const l = codec.decode(envelope.label);
+    if (l === undefined || !lattice.isLevel(l) || !isLabel(l)) {
+        throw new SerializationError(`deserializeLabeled: unexpected label ${JSON.stringify(envelope.label)}`);
+    }
+    if (options.isValue !== undefined && !options.isValue(envelope.value)) {
+        throw new SerializationError("deserializeLabeled: unexpected value");
+    }
+    return labelIn(lattice, l, envelope.value as V);
+}
+
+// LABEL_VALIDATORS________________________________________
+
+// a label below the expected one is fine: the value can be
+// treated as if labeled with the expected one (up-classifying
+// is safe).
+
+/** Accepts labels that flow to `bound` (typed as `bound`), in the lattice given (the powerset lattice by default). */
+export function labelBelow<B extends Level>(bound: B, lattice: AnyLattice = powerset): (l: Level) => l is B {
+    return (l: Level): l is B => lattice.leq(l, bound);
+}
+
+/** Accepts exactly the given labels (strings, as in the powerset lattice and linear orders). */
+export function labelOneOf<const Ls extends readonly Level[]>(...ls: Ls): (l: Level) => l is Ls[number] {
+    return (l: Level): l is Ls[number] => ls.some(e => powerset.leq(l, e) && powerset.leq(e, l));
+}
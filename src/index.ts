@@ -1,15 +1,105 @@
 /** This file contains the exported API for ifc-ts */
 
 // All the top level types that our API exposes
-export type {Principal, Level, LUB, GLB, LEQ, Bot, Top} from "./components/lattice";
+export type {Principal, Level, LUB, GLB, LEQ, Bot, Top, EnforcementMode} from "./components/lattice";
+export type {Lattice, AnyLattice, Powerset, ElementOf, BotOf, TopOf} from "./components/lattice";
+export type {LinearLevels, LinearElement, LinearLattice, TwoPointLevels, ClassificationLevels} from "./components/lattices";
+export type {Tagged, Pair, ProductLattice} from "./components/lattices";
 export type {Labeled} from "./components/label";
-export type {LIO} from "./components/monad";
+export type {LIO, LIOContext, LIOResult, RunOptions} from "./components/monad";
 export type {Src, Snk, Reader, Writer} from "./components/monad-io";
 
 // All the top level functions that our API exposes
-export {lub, botLevel, topLevel} from "./components/lattice";
-export {label, labelOf, upLabel, unsafe_valueOf} from "./components/label";
-export {unLabel, ret, bind, toLabeled, unsafe_runLIO} from "./components/monad";
+export {lub, glb, leq, botLevel, topLevel} from "./components/lattice";
+export {isLevel, levelOf, principalsOf, showLevel} from "./components/lattice";
+export {powerset} from "./components/lattice";
+export {linear, twoPoint, classification, product} from "./components/lattices";
+export {FlowViolationError, LabeledFailure} from "./components/enforcement";
+export type {FlowViolation, RequireFlow} from "./components/enforcement";
+export {label, labelOf, upLabel, unsafe_valueOf, labelFrom, secretsOf} from "./components/label";
+export {unLabel, ret, bind, bindAsync, toLabeled, runLIO, unsafe_runLIO, withClearance, runLIOWithClearance} from "./components/monad";
 export {upData, downPC, levelOfPC, levelOfData} from './components/monad-utility'
 
-export {src, snk, input, output} from './components/monad-io'
\ No newline at end of file
+export {src, snk, input, output} from './components/monad-io'
+
+// DC labels (secrecy + integrity)
+export type {Clause, Formula, True, False, DCLabel, AnyDC, SecrecyOf, IntegrityOf, DCBot, DCTop} from './components/dc-label'
+export type {Implies, And, Or, CanFlowTo, DCLUB, DCGLB, RequireDCFlow} from './components/dc-label'
+export type {DCLabeled, DCContext, DCLIOResult, DCLIO, DCSrc, DCSnk} from './components/dc-label'
+export {dc, dcBot, dcTop, implies, canFlowTo, dcLub, dcGlb, showDC, checkDCFlow, isDC} from './components/dc-label'
+// (label, unLabel, bind, src, snk, input and output take DC labels too)
+export {dcRet, dcRunLIO} from './components/dc-label'
+
+// Privileges: declassification, endorsement & audit trail
+export type {Priv, AuditEvent, AuditLogger, DropClauses} from './components/privilege'
+export {PrivilegeError, mintPrivilege, setAuditLogger, declassify, dcDeclassify, dcEndorse} from './components/privilege'
+
+// Labeled mutable references
+export type {LIORef} from './components/monad-ref'
+export {newLIORef, readLIORef, writeLIORef, modifyLIORef} from './components/monad-ref'
+
+// File sources and sinks
+export type {FileSnkOptions, PathRules, SrcLabel, SnkLabel, LabeledDir} from './components/io-fs'
+export {fileSrc, fileSnk, lineSrc, labeledDir} from './components/io-fs'
+
+// HTTP servers
+export type {LabeledRequest, HttpReply, LabeledHandler, Authenticate} from './components/io-http'
+export {labeledRequestListener, labeledServer} from './components/io-http'
+
+// Sockets
+export type {Framing, Frame, LabeledConnection, LabelConnection, ConnectionHandler, SocketServerOptions} from './components/io-net'
+export {socketSrc, socketSnk, labelConnection, labeledSocketServer, FramingError, defaultMaxFrameBytes} from './components/io-net'
+
+// Labeled control flow
+export type {Cases, CasesPC, CasesData, CasesValue, LoopValue} from './components/monad-control'
+export {ifLIO, whenLIO, matchLIO, forEachLIO, whileLIO} from './components/monad-control'
+
+// Labeled exceptions
+export {throwLIO, catchLIO, catchAsyncLIO, finallyLIO} from './components/monad-exception'
+
+// Labeled futures
+export type {LabeledFuture, LabelsOf, ValuesOf} from './components/monad-concurrency'
+export {forkLIO, waitLIO, allL, raceL} from './components/monad-concurrency'
+
+// Serialization
+export type {LabelCodec, SerializeOptions, DeserializeOptions} from './components/serialize'
+export {levelCodec, SerializationError, serializeLabeled, deserializeLabeled, labelBelow, labelOneOf} from './components/serialize'
+
+// Noninterference testing
+export type {Rng, SourceSpec, SourceSpecs, SinkSpecs, SourcesOf, SinksOf, NoninterferenceSpec, Counterexample, NoninterferenceReport} from './components/noninterference'
+export {rngFrom, checkNoninterference} from './components/noninterference'
+
+// In-memory sources and sinks
+export type {MemoryValues, MemoryFaults, WriteRecord, MemorySnk} from './components/io-memory'
+export {memorySrc, memorySnk} from './components/io-memory'
+
+// Principal hierarchies
+export type {Hierarchy, Covered, ActsFor, PrincipalHierarchy} from './components/hierarchy'
+export {hierarchy} from './components/hierarchy'
+
+// Labeled records
+export type {Fields, LabeledRecord, RecordLabel, RecordValue} from './components/labeled-record'
+export {labeledRecord, project, pick, omit, merge, collapse, spread} from './components/labeled-record'
+
+// Labeled collections
+export type {LabeledArray, LabeledMap} from './components/labeled-collections'
+export {labeledArray, labeledMap, mapL, filterL, reduceL, sortL, groupByL} from './components/labeled-collections'
+
+// Do-notation
+export type {Step, AsyncStep, StepsPC, StepsLabel} from './components/monad-do'
+export {step, stepAsync, lioDo, lioDoAsync} from './components/monad-do'
+
+// fp-ts type-class instances
+export {LIO_URI, mapLIO, apLIO, chainLIO, FunctorLIO, ApplyLIO, ApplicativeLIO, ChainLIO, MonadLIO} from './misc/custom-fp-ts'
+
+// Lifting pure functions over labeled arguments
+export type {LabeledArgs, ArgLabels} from './components/lift'
+export {liftL, liftLIO} from './components/lift'
+
+// Encryption
+export type {LabeledKey, Ciphertext} from './components/crypto'
+export {DecryptionError, labeledKey, encryptL, decryptL} from './components/crypto'
+
+// Leakage budgets
+export type {Secret, BudgetStore, BudgetOptions, BudgetedDeclassifier} from './components/budget'
+export {BudgetExhaustedError, memoryBudgetStore, fileBudgetStore, bitsFor, budgetedDeclassifier} from './components/budget'
@@ -1,5 +1,12 @@
+import {Applicative3} from "fp-ts/Applicative";
+import {Apply3} from "fp-ts/Apply";
+import {Chain3} from "fp-ts/Chain";
+import {Functor3} from "fp-ts/Functor";
+import {Kind3} from "fp-ts/HKT";
+import {Monad3} from "fp-ts/Monad";
 import {bind, LIO, ret} from "../components/monad";
 import {GLB, Level, LUB} from "../components/lattice";
+import {RequireFlow} from "../components/enforcement";
 
 // Implementing functions from fp-ts:
 
@@ -19,28 +26,93 @@ import {GLB, Level, LUB} from "../components/lattice";
 // chainF: <A, B>(fa: HKT<F, A>, f: (a: A) => HKT<F, B>) => HKT<F, B>
 // i.e.: chain: <A,B>(ma:LIO<...,A>, famb : (a:A)=>LIO<...,B>) => LIO<...,B>
 
-const of = ret;
+// LIO has three parameters, so it is a Kind3: R is the PC-level
+// (contravariant, like fp-ts' reader environment) and E the data-level.
+// the type classes keep R and E fixed throughout, so there is no
+// label arithmetic; instead, the kind itself requires E <: R: what a
+// computation reads may flow to its PC. then chaining two of them
+// (or sequencing a whole array) is as safe as bind; a computation that
+// does not have this shape (e.g. read a secret after writing publicly)
+// is rejected where it is used as a Kind3 (upData or downPC may help).
+// the curried versions below are for pipe; they keep bind's label
+// arithmetic (GLB of the PCs, LUB of the data-levels).
+
+/** The name LIO is registered under, in fp-ts' HKT. */
+export const LIO_URI = "ifc-ts/LIO";
+export type LIO_URI = typeof LIO_URI;
+
+declare module "fp-ts/HKT" {
+    interface URItoKind3<R, E, A> {
+        readonly [LIO_URI]: LIO<Extract<R, Level>, Extract<E, Level>, A> & RequireFlow<Extract<E, Level>, Extract<R, Level>>;
+    }
+}
+
+// bind, where the caller's types already required L <: Rpc: through
+// generic levels, the type checker cannot tell that RequireFlow holds.
+function bindFlowing<Lpc extends Level, L extends Level, V, Rpc extends Level, R extends Level, W>(
+    m: LIO<Lpc, L, V> & RequireFlow<L, Rpc>,
+    f: (v: V) => LIO<Rpc, R, W>
+): LIO<GLB<Lpc, Rpc>, LUB<L, R>, W> {
+    return bind(m, f as (v: V) => LIO<Rpc, R, W> & RequireFlow<L, Rpc>);
+}
+
+// an LIO with the levels of a Kind3 (R, E), as a Kind3. it is one once
+// it is shown that E <: R; the instances below only combine kinds (or
+// use ret, whose Bot flows anywhere), so that holds, but again the
+// type checker cannot tell.
+function toKind<R, E, A>(m: LIO<Extract<R, Level>, Extract<E, Level>, A>): Kind3<LIO_URI, R, E, A> {
+    return m as Kind3<LIO_URI, R, E, A>;
+}
 
 // aka. lift
-function map<A, B, Lpc extends Level, L extends Level>(ma: LIO<Lpc, L, A>, fab: (a: A) => B): LIO<Lpc, L, B> {
-    const [lpc, l, a] = ma
-    return [lpc, l, fab(a)]
+/** map, for pipe: applies f to the value. */
+export function mapLIO<A, B>(f: (a: A) => B): <Lpc extends Level, L extends Level>(ma: LIO<Lpc, L, A>) => LIO<Lpc, L, B> {
+    return (ma) => bind(ma, (a) => ret(f(a)));
 }
 
-const chain = bind
-
-function ap<
-    A,
-    B,
-    LFpc extends Level,
-    LF extends Level,
-    LApc extends Level,
-    LA extends Level
->(
-    mfab: LIO<LFpc, LF, (a: A) => B>,
-    ma: LIO<LApc, LA, A>
-): LIO<GLB<LFpc, LApc>, LUB<LF, LA>, B> {
-    const [lfpc, lf, f] = mfab
-    return map(ma, f)
+/**
+ * ap, for pipe: applies the function of mfab to the value of ma.
+ * mfab runs first, so its data-level must flow to ma's PC (as with bind).
+ */
+export function apLIO<LApc extends Level, LA extends Level, A>(ma: LIO<LApc, LA, A>):
+    <LFpc extends Level, LF extends Level, B>(mfab: LIO<LFpc, LF, (a: A) => B> & RequireFlow<LF, LApc>) =>
+        LIO<GLB<LFpc, LApc>, LUB<LF, LA>, B> {
+    return (mfab) => bindFlowing(mfab, (f) => mapLIO(f)(ma));
 }
 
+/** chain, for pipe: bind, with the arguments the other way around. */
+export function chainLIO<A, Rpc extends Level, R extends Level, B>(f: (a: A) => LIO<Rpc, R, B>):
+    <Lpc extends Level, L extends Level>(ma: LIO<Lpc, L, A> & RequireFlow<L, Rpc>) =>
+        LIO<GLB<Lpc, Rpc>, LUB<L, R>, B> {
+    return (ma) => bindFlowing(ma, f);
+}
+
+/** LIO's Functor instance. */
+export const FunctorLIO: Functor3<LIO_URI> = {
+    URI: LIO_URI,
+    map: <R, E, A, B>(fa: Kind3<LIO_URI, R, E, A>, f: (a: A) => B) => toKind<R, E, B>(mapLIO(f)(fa))
+};
+
+/** LIO's Apply instance. */
+export const ApplyLIO: Apply3<LIO_URI> = {
+    ...FunctorLIO,
+    ap: <R, E, A, B>(fab: Kind3<LIO_URI, R, E, (a: A) => B>, fa: Kind3<LIO_URI, R, E, A>) => toKind<R, E, B>(apLIO(fa)(fab))
+};
+
+/** LIO's Applicative instance. */
+export const ApplicativeLIO: Applicative3<LIO_URI> = {
+    ...ApplyLIO,
+    of: <R, E, A>(a: A) => toKind<R, E, A>(ret(a))
+};
+
+/** LIO's Chain instance. */
+export const ChainLIO: Chain3<LIO_URI> = {
+    ...ApplyLIO,
+    chain: <R, E, A, B>(fa: Kind3<LIO_URI, R, E, A>, f: (a: A) => Kind3<LIO_URI, R, E, B>) => toKind<R, E, B>(chainLIO(f)(fa))
+};
+
+/** LIO's Monad instance. */
+export const MonadLIO: Monad3<LIO_URI> = {
+    ...ApplicativeLIO,
+    chain: ChainLIO.chain
+};
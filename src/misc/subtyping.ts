@@ -22,11 +22,18 @@ export type Covariant<T> = T
 // contravariant (as is standard for subtyping).
 export type Contravariant<T> = (_: T) => null;
 
+// the function itself forgets t, so we remember it on the side.
+// (needed in dynamic mode, where the PC-level must be accurate)
+const contravariantValues = new WeakMap<object, unknown>();
+
 export function toContravariant<T>(t: T): Contravariant<T> {
-    return ((_: T) => null);
+    const ct = (_: T) => null;
+    contravariantValues.set(ct, t);
+    return ct;
 }
 
 export function fromContravariant<T>(ct: Contravariant<T>): T {
+    if (contravariantValues.has(ct)) return contravariantValues.get(ct) as T;
     const r: T = botLevel as T // hack that only works with levels...
     return r;
 }
@@ -38,4 +45,9 @@ export function fromContravariant<T>(ct: Contravariant<T>): T {
 // be the same. that way,
 // covariably     modifying the type violate contravariance of the argument type, and
 // contravariably modifying the type violate covariance     of the return   type.
-export type Invariant<T> = (_: T) => T
\ No newline at end of file
+export type Invariant<T> = (_: T) => T
+// contravariance also turns unions into intersections: put each
+// member of a union in a contravariant position, and what is
+// inferred for them all must be a subtype of each, i.e. their
+// intersection. (used for glbs of levels computed over unions.)
+export type Intersect<U> = (U extends unknown ? Contravariant<U> : never) extends Contravariant<infer I> ? I : never;
@@ -0,0 +1,54 @@
+import {test} from "node:test";
+import {strictEqual, throws} from "node:assert";
+import {label, Labeled, upLabel} from "../src/components/label";
+import {lub} from "../src/components/lattice";
+import {bind, ret, runLIO, toLabeled, unLabel, unsafe_runLIO} from "../src/components/monad";
+import {LabeledFailure} from "../src/components/enforcement";
+import {liftL} from "../src/components/lift";
+import {mintPrivilege} from "../src/components/privilege";
+import {budgetedDeclassifier, memoryBudgetStore} from "../src/components/budget";
+
+const amy = mintPrivilege("Amy");
+
+function oracle() {
+    return budgetedDeclassifier(amy, {bits: 1, store: memoryBudgetStore()});
+}
+
+test("a copy made by upLabel has the budget of the secret", () => {
+    const o = oracle();
+    const password = label("Amy", "hunter2");
+    const copy = upLabel<"Amy", "Amy" | "Bob", string>(lub("Amy", "Bob"))(password);
+    unsafe_runLIO(o.release(password, (p) => p === "123456"));
+    strictEqual(o.remaining(copy), 0);
+    throws(() => unsafe_runLIO(o.release(copy, (p) => p === "hunter2")), LabeledFailure);
+});
+
+test("a copy boxed by toLabeled or runLIO has the budget of the secret", () => {
+    const o = oracle();
+    const password = label("Amy", "hunter2");
+    const boxed = unsafe_runLIO(toLabeled(unLabel(password)));
+    const run = runLIO(unLabel(password));
+    unsafe_runLIO(o.release(boxed, (p) => p === "123456"));
+    strictEqual(o.remaining(password), 0);
+    throws(() => unsafe_runLIO(o.release(password, (p) => p === "hunter2")), LabeledFailure);
+    throws(() => unsafe_runLIO(o.release(run, (p) => p === "hunter2")), LabeledFailure);
+});
+
+test("a value labeled anew by a computation that read the secret has its budget", () => {
+    const o = oracle();
+    const password = label("Amy", "hunter2");
+    const relabeled: Labeled<"Amy", string> = unsafe_runLIO(bind(unLabel(password), (p) => ret(label("Amy", p))));
+    const lifted = liftL((p: string) => p.toUpperCase())(password);
+    unsafe_runLIO(o.release(password, (p) => p === "123456"));
+    strictEqual(o.remaining(relabeled), 0);
+    strictEqual(o.remaining(lifted), 0);
+});
+
+test("other secrets keep their own budgets", () => {
+    const o = oracle();
+    const password = label("Amy", "hunter2");
+    const pin = label("Amy", "1234");
+    unsafe_runLIO(o.release(password, (p) => p === "123456"));
+    strictEqual(o.remaining(pin), 1);
+    unsafe_runLIO(o.release(pin, (p) => p === "0000"));
+});
@@ -0,0 +1,25 @@
+import {test} from "node:test";
+import {strictEqual, throws} from "node:assert";
+import {ret, runLIOWithClearance, unsafe_runLIO} from "../src/components/monad";
+import {newLIORef, readLIORef} from "../src/components/monad-ref";
+import {forkLIO, waitLIO} from "../src/components/monad-concurrency";
+import {FlowViolationError} from "../src/components/enforcement";
+
+// a label from untyped data: Secret, though its type claims Public
+// (so only dynamic mode can tell).
+const secret = "Secret" as "Public";
+
+test("reading a reference above the clearance fails in dynamic mode", () => {
+    const ref = unsafe_runLIO(newLIORef(secret, 42));
+    throws(() => runLIOWithClearance("Public", readLIORef(ref), {mode: "dynamic"}), FlowViolationError);
+});
+
+test("reading a reference below the clearance succeeds", () => {
+    const ref = unsafe_runLIO(newLIORef("Public", 42));
+    strictEqual(runLIOWithClearance("Public", readLIORef(ref), {mode: "dynamic"}).unsafeGetValue(), 42);
+});
+
+test("waiting for a future above the clearance fails in dynamic mode", () => {
+    const future = unsafe_runLIO(forkLIO(secret, ret(42)));
+    throws(() => runLIOWithClearance("Public", waitLIO(future), {mode: "dynamic"}), FlowViolationError);
+});
@@ -0,0 +1,20 @@
+import {test} from "node:test";
+import {strictEqual, throws} from "node:assert";
+import {label} from "../src/components/label";
+import {lub} from "../src/components/lattice";
+import {Ciphertext, DecryptionError, decryptL, encryptL, labeledKey} from "../src/components/crypto";
+import {labelBelow} from "../src/components/serialize";
+
+const key = labeledKey(lub("Amy", "Bob"));
+
+test("decryptL gives back the value with the label it had", () => {
+    const lv = decryptL(key, encryptL(key, label("Amy", 42)), labelBelow("Amy"));
+    strictEqual(lv.getLabel(), "Amy");
+    strictEqual(lv.unsafeGetValue(), 42);
+});
+
+test("decryptL rejects a ciphertext whose label is not the one expected", () => {
+    const ct = encryptL(key, label("Amy", 42));
+    const bobs: Ciphertext<"Bob", number> = JSON.parse(JSON.stringify(ct.unsafeGetValue()));
+    throws(() => decryptL(key, label("Public", bobs), labelBelow("Bob")), DecryptionError);
+});
@@ -0,0 +1,34 @@
+import {test} from "node:test";
+import {ok, strictEqual, throws} from "node:assert";
+import {label, Labeled} from "../src/components/label";
+import {Bot, botLevel, leq} from "../src/components/lattice";
+import {bind, LIO, ret, toLabeled, unLabel, unsafe_runLIO} from "../src/components/monad";
+import {output} from "../src/components/monad-io";
+import {catchLIO, throwLIO} from "../src/components/monad-exception";
+import {LabeledFailure} from "../src/components/enforcement";
+import {memorySnk} from "../src/components/io-memory";
+
+// throws iff the secret is true.
+const leaky = (secret: boolean): LIO<string, "Secret", number> =>
+    bind(unLabel(label("Secret", secret)), (b) => b ? throwLIO(label(botLevel, "boom")) : ret(1));
+
+test("a failure inside toLabeled is boxed, not caught at Bot", () => {
+    const pub = memorySnk<"Public", string>("Public");
+    // (statically, what toLabeled's computation throws is at Bot: it read nothing.)
+    const m = catchLIO(toLabeled(leaky(true)), (_: Labeled<Bot, unknown>) => output(pub.snk)(label("Public", "secret was true")));
+    const box = unsafe_runLIO(m);
+    pub.expectNoWrites();
+    ok(!(box instanceof Promise));
+    ok(leq("Secret", box.getLabel()));
+});
+
+test("unLabel rethrows a boxed failure, labeled with the box's label", () => {
+    const box = unsafe_runLIO(toLabeled(leaky(true)));
+    throws(() => unsafe_runLIO(unLabel(box)), (e: unknown) => e instanceof LabeledFailure && leq("Secret", e.label));
+});
+
+test("toLabeled of a computation that succeeds boxes its value", () => {
+    const box = unsafe_runLIO(toLabeled(leaky(false)));
+    strictEqual(box.getLabel(), "Secret");
+    strictEqual(unsafe_runLIO(unLabel(box)), 1);
+});
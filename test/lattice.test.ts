@@ -0,0 +1,33 @@
+import {test} from "node:test";
+import {deepStrictEqual, strictEqual} from "node:assert";
+import {botLevel, glb, isLevel, leq, levelOf, lub, principalsOf, showLevel, topLevel} from "../src/components/lattice";
+
+test("a set of principals is a string at runtime", () => {
+    const l = lub("Amy", "Bob");
+    strictEqual(typeof l, "string");
+    strictEqual(isLevel(l), true);
+    // string methods (which its type allows) do not throw.
+    strictEqual(typeof l.toUpperCase(), "string");
+});
+
+test("the same set is the same level", () => {
+    strictEqual(lub("Amy", "Bob"), lub("Bob", "Amy"));
+    strictEqual(lub(lub("Amy", "Bob"), "Amy"), lub("Amy", "Bob"));
+    strictEqual(levelOf(["Bob", "Amy", "Bob"]), lub("Amy", "Bob"));
+});
+
+test("lub, glb and leq compute on sets", () => {
+    const ab = lub("Amy", "Bob");
+    deepStrictEqual(principalsOf(ab), ["Amy", "Bob"]);
+    strictEqual(glb(ab, lub("Bob", "Cid")), "Bob");
+    strictEqual(glb("Amy", "Bob"), botLevel);
+    strictEqual(leq("Amy", ab), true);
+    strictEqual(leq(ab, "Amy"), false);
+    strictEqual(leq(ab, topLevel), true);
+    strictEqual(showLevel(ab), '"Amy" | "Bob"');
+});
+
+test("a principal is not mistaken for a set", () => {
+    deepStrictEqual(principalsOf("Amy | Bob"), ["Amy | Bob"]);
+    deepStrictEqual(principalsOf("👥[\"Bob\",\"Amy\"]"), ["👥[\"Bob\",\"Amy\"]"]);
+});
@@ -0,0 +1,12 @@
+import {test} from "node:test";
+import {strictEqual} from "node:assert";
+import {label} from "../src/components/label";
+import {lub} from "../src/components/lattice";
+import {liftL} from "../src/components/lift";
+
+test("liftL passes the arguments' values in order, labeled with the lub of their labels", () => {
+    const minus = liftL((x: number, y: number) => x - y);
+    const lv = minus(label("Amy", 7), label("Bob", 2));
+    strictEqual(lv.unsafeGetValue(), 5);
+    strictEqual(lv.getLabel(), lub("Amy", "Bob"));
+});
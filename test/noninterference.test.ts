@@ -0,0 +1,32 @@
+import {test} from "node:test";
+import {deepStrictEqual, strictEqual} from "node:assert";
+import {label} from "../src/components/label";
+import {Level} from "../src/components/lattice";
+import {bindAsync} from "../src/components/monad";
+import {input, output} from "../src/components/monad-io";
+import {checkNoninterference} from "../src/components/noninterference";
+
+test("each sink gets the writes of the program, per name", async () => {
+    const r = await checkNoninterference({
+        observer: "Bob",
+        sources: {salary: {label: "Amy", generate: (rng) => rng.int(1000, 9000)}},
+        sinks: {bob: "Bob", amy: "Amy"},
+        program: (s, k) => bindAsync(input(s.salary), output(k.amy)),
+        trials: 5
+    });
+    strictEqual(r.ok, true);
+    strictEqual(r.compared, 5);
+});
+
+test("a write that depends on a secret is a counterexample, at its sink", async () => {
+    const r = await checkNoninterference({
+        observer: "Bob",
+        sources: {salary: {label: "Amy", generate: (rng) => rng.int(1000, 9000)}},
+        sinks: {bob: "Bob" as Level, amy: "Amy"},
+        program: (s, k) => bindAsync(input(s.salary), (lv) =>
+            output(k.bob)(label<Level, number>("Bob", lv.unsafeGetValue()))),
+        trials: 5
+    });
+    strictEqual(r.ok, false);
+    deepStrictEqual(Array.from(new Set(r.counterexamples.map(c => c.sink))), ["bob"]);
+});
@@ -0,0 +1,19 @@
+import {test} from "node:test";
+import {strictEqual, throws} from "node:assert";
+import {label, labelIn} from "../src/components/label";
+import {lub, powerset} from "../src/components/lattice";
+import {twoPoint} from "../src/components/lattices";
+import {declassify, mintPrivilege} from "../src/components/privilege";
+
+const amy = mintPrivilege("Amy");
+
+test("declassify drops the principal, in the value's lattice", () => {
+    const lv = declassify(amy, label(lub("Amy", "Bob"), 1));
+    strictEqual(lv.getLabel(), "Bob");
+    strictEqual(lv.getLattice(), powerset);
+});
+
+test("declassify refuses labels that are not sets of principals", () => {
+    const secret = labelIn(twoPoint, twoPoint.levels.Secret, 1);
+    throws(() => declassify(mintPrivilege("Secret"), secret), TypeError);
+});
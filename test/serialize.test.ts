@@ -0,0 +1,28 @@
+import {test} from "node:test";
+import {deepStrictEqual, strictEqual, throws} from "node:assert";
+import {label, labelIn} from "../src/components/label";
+import {levelOf, powerset} from "../src/components/lattice";
+import {twoPoint} from "../src/components/lattices";
+import {deserializeLabeled, labelBelow, SerializationError, serializeLabeled} from "../src/components/serialize";
+
+test("sets of principals go on the wire as arrays", () => {
+    const amyOrBob = levelOf<"Amy" | "Bob">(["Amy", "Bob"]);
+    const wire = serializeLabeled(amyOrBob, label(amyOrBob, 1));
+    deepStrictEqual(JSON.parse(wire).label, ["Amy", "Bob"]);
+    strictEqual(deserializeLabeled(wire, labelBelow(amyOrBob)).getLabel(), amyOrBob);
+});
+
+test("deserializeLabeled reads labels in the lattice given", () => {
+    const secret = twoPoint.levels.Secret;
+    const wire = serializeLabeled(secret, labelIn(twoPoint, secret, 1));
+    const lv = deserializeLabeled(wire, labelBelow(secret, twoPoint), {lattice: twoPoint});
+    strictEqual(lv.getLabel(), secret);
+    strictEqual(lv.getLattice(), twoPoint);
+    strictEqual(deserializeLabeled(wire, labelBelow(secret)).getLattice(), powerset);
+});
+
+test("deserializeLabeled rejects labels that are not in the lattice given", () => {
+    const wire = serializeLabeled("Amy", label("Amy", 1));
+    const secret = twoPoint.levels.Secret;
+    throws(() => deserializeLabeled(wire, labelBelow(secret, twoPoint), {lattice: twoPoint}), SerializationError);
+});